@@ -3,6 +3,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConversationModule } from './modules/conversation/conversation.module';
 import { GeminiModule } from './modules/gemini/gemini.module';
+import { LlmModule } from './modules/llm/llm.module';
 import { PromptModule } from './modules/prompt/prompt.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { AdminModule } from './modules/admin/admin.module';
@@ -27,6 +28,8 @@ import { HealthModule } from './health/health.module';
 
     GeminiModule,
 
+    LlmModule,
+
     PromptModule,
 
     AuthModule,
@@ -0,0 +1,132 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { parseArgs } from 'util';
+import { LlmModule } from '../modules/llm/llm.module';
+import { EvaluationModule } from '../modules/evaluation/evaluation.module';
+import { EvaluationService } from '../modules/evaluation/evaluation.service';
+
+const USAGE = `Replay the golden conversations of a suite and store the report.
+
+Usage: pnpm run evaluate [options]
+
+  --suite <name>      Suite to run (default: default)
+  --provider <name>   LLM provider, e.g. mock (default: LLM_PROVIDER)
+  --model <name>      Model instead of the provider default
+  --compare <runId>   Compare with this run instead of the previous one
+  --json              Print the run as JSON
+  --help              Show this help
+
+Exits with 1 when a case fails.`;
+
+/**
+ * Only what an evaluation needs: no HTTP server, sockets or job polling
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    MongooseModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        uri: configService.get<string>('MONGODB_URI'),
+      }),
+      inject: [ConfigService],
+    }),
+    LlmModule,
+    EvaluationModule,
+  ],
+})
+class EvaluationCliModule {}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      suite: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      compare: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const app = await NestFactory.createApplicationContext(EvaluationCliModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const evaluationService = app.get(EvaluationService);
+    const run = await evaluationService.runSuite({
+      suite: values.suite,
+      provider: values.provider,
+      model: values.model,
+      triggeredBy: 'cli',
+    });
+
+    const base = values.compare
+      ? await evaluationService.getRun(values.compare)
+      : await evaluationService.getPreviousRun(run);
+    const comparison = base ? evaluationService.compare(base, run) : null;
+
+    if (values.json) {
+      console.log(JSON.stringify({ run, comparison }, null, 2));
+      return run.summary.passed === run.summary.total ? 0 : 1;
+    }
+
+    console.log(
+      `Suite ${run.suite} on ${run.provider}${run.model ? ` (${run.model})` : ''}, run ${String(run._id)}`,
+    );
+    for (const result of run.results) {
+      console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.caseName}`);
+      if (result.error) {
+        console.log(`      error: ${result.error}`);
+      }
+      for (const assertion of result.assertions.filter((a) => !a.passed)) {
+        console.log(`      ${assertion.type}: ${assertion.message}`);
+      }
+    }
+
+    const { summary } = run;
+    console.log(
+      `\n${summary.passed}/${summary.total} passed, ${summary.failed} failed, ${summary.errored} errored (${Math.round(summary.passRate * 100)}%)`,
+    );
+
+    if (comparison) {
+      console.log(
+        `Compared with ${comparison.base.id}: pass rate ${comparison.passRateDelta >= 0 ? '+' : ''}${Math.round(comparison.passRateDelta * 100)} points`,
+      );
+      for (const change of comparison.templateChanges) {
+        console.log(
+          `  template ${change.name}: ${change.from ?? '-'} -> ${change.to ?? '-'}`,
+        );
+      }
+      for (const regression of comparison.regressions) {
+        console.log(`  regressed: ${regression.caseName}`);
+      }
+      for (const caseName of comparison.fixes) {
+        console.log(`  fixed: ${caseName}`);
+      }
+    }
+
+    return summary.passed === summary.total ? 0 : 1;
+  } finally {
+    await app.close();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error.message);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,11 @@
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  role: string;
+}
+
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
@@ -1,27 +1,116 @@
+import { DiffSegment } from '../utils/text-diff';
+import { PronunciationWordScore } from './speech.interface';
+
 export interface ConversationMetadata {
   level?: 'beginner' | 'intermediate' | 'advanced';
   topic?: string;
+  topicTags?: string[]; // Used to target prompt templates
   simulationType?: string;
   userGoals?: string[];
+  locale?: string; // Learner locale, e.g. 'es-MX'
+}
+
+// pending: queued, ok: valid on first try, repaired: fixed locally or by a
+// retry, failed: unusable
+export type AnalysisStatus = 'pending' | 'ok' | 'repaired' | 'failed';
+
+export type GrammarErrorCategory =
+  | 'tense'
+  | 'article'
+  | 'preposition'
+  | 'word_order'
+  | 'spelling'
+  | 'agreement'
+  | 'plural'
+  | 'pronoun'
+  | 'word_choice'
+  | 'punctuation'
+  | 'capitalization'
+  | 'other';
+
+export type GrammarErrorSeverity = 'minor' | 'moderate' | 'major';
+
+export interface GrammarError {
+  error: string; // Explanation for the learner
+  original: string; // Exact text of the mistake, equals text.slice(start, end)
+  suggestion: string; // Replacement for the original span
+  start: number;
+  end: number;
+  category: GrammarErrorCategory;
+  severity: GrammarErrorSeverity;
 }
 
 export interface MessageAnalysis {
-  grammarErrors?: Array<{
-    error: string;
-    suggestion: string;
-    position: number;
-  }>;
+  grammarErrors?: GrammarError[];
+  correctedText?: string; // Original text with every suggestion applied
+  diff?: DiffSegment[]; // Word diff from the original to correctedText
   vocabularyLevel?: string;
   suggestions?: string[];
   score?: number;
 }
 
+export type PronunciationWordStatus =
+  | 'correct'
+  | 'mispronounced'
+  | 'omitted' // Expected but not heard
+  | 'inserted'; // Heard but not expected
+
+export interface PronunciationWord extends PronunciationWordScore {
+  status: PronunciationWordStatus;
+}
+
+export interface PronunciationAnalysis {
+  provider: string;
+  mode: 'drill' | 'free'; // Compared to the expected text or to the transcript
+  referenceText: string;
+  words: PronunciationWord[];
+  mispronouncedWords: string[];
+  omittedWords: string[];
+  accuracyScore: number; // Mean score of the expected words that were heard
+  completenessScore: number; // Share of expected words that were heard
+  fluencyScore?: number;
+  overallScore: number;
+}
+
+/**
+ * Rolling summary of the turns that no longer fit in the context window
+ */
+export interface ConversationSummary {
+  text: string;
+  lastMessageId: string; // Newest message folded into the summary
+  messageCount: number; // Messages the summary covers
+  provider: string;
+  model: string;
+  updatedAt: Date;
+}
+
+/**
+ * Learner feedback on a tutor reply
+ */
+export interface MessageRating {
+  score: number; // 1 to 5
+  comment?: string;
+  ratedAt: Date;
+}
+
+/**
+ * How an audio message was turned into its content
+ */
+export interface MessageTranscription {
+  provider: string;
+  confidence?: number; // 0-1
+  duration?: number; // Seconds
+  language?: string;
+}
+
 export interface ConversationContext {
   userId: string;
   conversationId: string;
+  conversationType?: string;
   history: Array<{
     role: string;
     content: string;
   }>;
+  summary?: string; // Summary of the turns before history
   metadata?: ConversationMetadata;
 }
@@ -0,0 +1,53 @@
+import { PromptTemplateRef } from './prompt.interface';
+import { LlmUsage } from './llm.interface';
+
+/**
+ * Check applied to the reply of a golden conversation
+ */
+export type EvaluationAssertion =
+  | { type: 'corrects'; expected: string; error?: string } // Reply contains the correction
+  | { type: 'english'; minConfidence?: number }
+  | { type: 'no_system_prompt_leak'; ngramSize?: number } // No run of ngramSize words copied from the system prompt
+  | { type: 'max_length'; max: number; unit?: 'characters' | 'words' };
+
+export type EvaluationAssertionType = EvaluationAssertion['type'];
+
+export interface EvaluationAssertionResult {
+  type: EvaluationAssertionType;
+  passed: boolean;
+  message: string;
+}
+
+export interface EvaluationCaseResult {
+  caseName: string;
+  passed: boolean;
+  error?: string; // The case could not be run
+  reply?: string;
+  assertions: EvaluationAssertionResult[];
+  templates: PromptTemplateRef[];
+  usage?: LlmUsage;
+  processingTime?: number;
+}
+
+export interface EvaluationSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errored: number;
+  passRate: number; // 0 to 1
+}
+
+/**
+ * Differences between two runs, e.g. before and after a template change
+ */
+export interface EvaluationComparison {
+  base: { id: string; passRate: number; createdAt?: Date };
+  head: { id: string; passRate: number; createdAt?: Date };
+  passRateDelta: number;
+  regressions: Array<{ caseName: string; failures: string[] }>; // Passed in base, fails in head
+  fixes: string[]; // Failed in base, passes in head
+  unchanged: number;
+  addedCases: string[];
+  removedCases: string[];
+  templateChanges: Array<{ name: string; from?: number; to?: number }>;
+}
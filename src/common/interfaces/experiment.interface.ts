@@ -0,0 +1,39 @@
+export type ExperimentStatus = 'draft' | 'running' | 'stopped' | 'completed';
+
+/**
+ * One arm of an experiment. A variant without a template body is the
+ * control and uses the template as stored.
+ */
+export interface ExperimentVariant {
+  name: string;
+  template?: string;
+  weight: number; // Relative share of the bucketed users or conversations
+}
+
+/**
+ * Variant a conversation turn was served, recorded on assistant messages
+ */
+export interface ExperimentAssignment {
+  experiment: string;
+  templateName: string;
+  variant: string;
+}
+
+export interface ExperimentVariantMetrics {
+  variant: string;
+  replies: number; // Assistant messages generated with the variant
+  conversations: number;
+  ratings: { count: number; average: number | null };
+  scoreDelta: { samples: number; average: number | null }; // Analysis score of the next user message minus the previous one
+  averageConversationLength: number | null; // Messages per conversation
+  injectionRate: number | null; // Share of replies answered by a flagged user message
+}
+
+export interface ExperimentResults {
+  experiment: string;
+  templateName: string;
+  status: ExperimentStatus;
+  startedAt?: Date;
+  endedAt?: Date;
+  variants: ExperimentVariantMetrics[];
+}
@@ -0,0 +1,53 @@
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface JobRecord<T = any> {
+  id: string;
+  name: string; // Handler that processes the job
+  payload: T;
+  status: JobStatus;
+  attempts: number; // Attempts started so far, including the running one
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this date
+  lastError?: string;
+}
+
+export type JobHandler<T = any> = (
+  payload: T,
+  job: JobRecord<T>,
+) => Promise<void>;
+
+export interface EnqueueJobOptions {
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Persistence backend of the job queue
+ */
+export interface JobStore {
+  add(
+    name: string,
+    payload: unknown,
+    options: { maxAttempts: number; runAt: Date },
+  ): Promise<JobRecord>;
+
+  /**
+   * Atomically mark the next due pending job as running
+   */
+  claimNext(names: string[], now: Date): Promise<JobRecord | null>;
+
+  complete(id: string): Promise<void>;
+
+  /**
+   * Record a failed attempt; the job runs again at retryAt, or is marked
+   * failed for good when retryAt is omitted
+   */
+  fail(id: string, error: string, retryAt?: Date): Promise<void>;
+
+  /**
+   * Return jobs left running by a crashed process to the queue
+   */
+  releaseStale(olderThan: Date): Promise<number>;
+
+  countByStatus(): Promise<Record<JobStatus, number>>;
+}
@@ -0,0 +1,77 @@
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmGenerateOptions {
+  systemInstructions?: string[]; // Ordered prompt layers (system, user, context)
+  model?: string;
+  signal?: AbortSignal; // Aborts the upstream request
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean; // true when counted locally instead of by the provider
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage: LlmUsage;
+  processingTime?: number;
+  provider?: string; // Provider that served the call, differs after a fallback
+}
+
+export interface LlmStream {
+  chunks: AsyncGenerator<string>;
+  // Full reply with usage, available once the chunks have been drained
+  getResponse(): Promise<LlmResponse>;
+}
+
+/**
+ * JSON Schema subset (OpenAPI 3 flavour) used to request structured output
+ */
+export interface LlmJsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, LlmJsonSchema>;
+  required?: string[];
+  items?: LlmJsonSchema;
+  enum?: string[];
+  nullable?: boolean;
+}
+
+/**
+ * Contract every LLM backend (Gemini, OpenAI-compatible, self-hosted...) implements
+ */
+export interface LlmProvider {
+  readonly name: string;
+
+  isInitialized(): boolean;
+
+  getModel(): string;
+
+  generate(
+    messages: LlmMessage[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse>;
+
+  stream(
+    messages: LlmMessage[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmStream>;
+
+  /**
+   * Single-turn call whose reply is JSON constrained to the schema.
+   * The text is returned unparsed; callers validate it.
+   */
+  generateStructured(
+    prompt: string,
+    schema: LlmJsonSchema,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse>;
+
+  countTokens(text: string): Promise<number>;
+}
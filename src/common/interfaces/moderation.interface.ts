@@ -0,0 +1,77 @@
+/**
+ * Escalating responses to a risky message: allow it, strip the risky
+ * parts, strip and tell the user, reject it, or reject it and flag the
+ * account for review
+ */
+export type ModerationAction = 'allow' | 'sanitize' | 'warn' | 'block' | 'flag';
+
+/**
+ * Evidence of a prompt injection found by one detector
+ */
+export interface InjectionSignal {
+  detector: string;
+  score: number; // 0 to 1, how strongly this alone suggests an injection
+  reason: string;
+  spans?: Array<{ start: number; end: number }>; // Matched text, removed when sanitizing
+}
+
+export interface InjectionDetectionContext {
+  userId: string;
+  conversationId?: string;
+}
+
+/**
+ * A source of injection signals: stored rules, heuristics, a classifier...
+ */
+export interface InjectionDetector {
+  readonly name: string;
+  detect(
+    input: string,
+    context: InjectionDetectionContext,
+  ): Promise<InjectionSignal[]>;
+}
+
+export interface InjectionAssessment {
+  riskScore: number; // Signals combined, 0 to 1
+  action: ModerationAction;
+  signals: InjectionSignal[];
+  sanitizedInput?: string; // Set for sanitize and warn
+  warning?: string; // Shown to the user for warn
+}
+
+/**
+ * Outcome stored on user messages that carried any risk
+ */
+export interface MessageModeration {
+  riskScore: number;
+  action: ModerationAction;
+  threats: string[]; // Signal reasons
+  warning?: string;
+}
+
+export type ResponseViolationType =
+  | 'system_prompt_leak'
+  | 'language'
+  | 'banned_content';
+
+/**
+ * Ways to fix a tutor reply: ask the model again, cut the offending text
+ * or swap the whole reply for a fallback
+ */
+export type ResponseGuardAction = 'regenerate' | 'redact' | 'replace';
+
+export interface ResponseViolation {
+  type: ResponseViolationType;
+  detail: string;
+  spans?: Array<{ start: number; end: number }>; // Offending text, for redact
+}
+
+/**
+ * What the response guard changed, stored on the assistant message. The
+ * message is returned to the student, so it never holds the offending text.
+ */
+export interface ResponseIntervention {
+  action: ResponseGuardAction; // Last step applied to the reply
+  violations: Array<Omit<ResponseViolation, 'spans'>>; // Found in the first reply
+  regenerations: number;
+}
@@ -8,15 +8,85 @@ export interface PromptVariables {
   [key: string]: string | number | boolean | object;
 }
 
+/**
+ * Contexts a template applies to. Every non-empty list must match; a
+ * template without targeting applies everywhere.
+ */
+export interface PromptTemplateTargeting {
+  levels?: string[];
+  conversationTypes?: string[];
+  simulationTypes?: string[];
+  topicTags?: string[]; // Any shared tag matches
+  locales?: string[]; // 'es' matches 'es-MX'
+}
+
+/**
+ * Why a template was or was not used for a context
+ */
+export interface PromptTemplateSelection extends PromptTemplateRef {
+  selected: boolean;
+  reasons: string[];
+}
+
+/**
+ * Template version that contributed to a compiled prompt
+ */
+export interface PromptTemplateRef {
+  name: string;
+  version: number;
+  layer: string;
+}
+
+/**
+ * Body served instead of a stored template, e.g. an experiment variant
+ */
+export interface PromptTemplateOverride {
+  templateName: string;
+  template: string;
+  source: string; // Identifies the body in the parse cache
+}
+
 export interface CompiledPrompt {
   systemPrompt: string;
   userPrompt: string;
   contextPrompt: string;
   fullPrompt: string;
+  templates: PromptTemplateRef[];
+  selection: PromptTemplateSelection[]; // Every active template, selected or not
 }
 
-export interface PromptInjectionCheckResult {
-  isSafe: boolean;
-  threats: string[];
-  sanitizedInput?: string;
+/**
+ * What the model would receive for a context, for admins editing templates
+ */
+export interface PromptPreview {
+  compiled: CompiledPrompt;
+  variables: PromptVariables;
+  templates: Array<
+    PromptTemplateSelection & {
+      priority: number;
+      unresolvedVariables: string[]; // Used by the template but empty here
+    }
+  >;
+  skippedTemplates: PromptTemplateSelection[]; // Targeting did not match
+  unresolvedVariables: string[];
+  estimatedTokens: {
+    systemPrompt: number;
+    userPrompt: number;
+    contextPrompt: number;
+    history: number;
+    total: number;
+  };
+}
+
+export type PromptTemplateChangeType =
+  | 'seed'
+  | 'create'
+  | 'update'
+  | 'rollback'
+  | 'migration'
+  | 'experiment'; // Promoted experiment variant
+
+export interface PromptTemplateAuthor {
+  userId: string;
+  email?: string;
 }
@@ -0,0 +1,84 @@
+export interface AudioInput {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface AudioTranscriptionOptions {
+  language?: string;
+  format?: string;
+}
+
+export interface AudioTranscriptionResult {
+  text: string;
+  confidence?: number; // 0-1
+  duration?: number; // Seconds
+  language?: string;
+}
+
+/**
+ * Contract every speech-to-text backend implements
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+
+  transcribe(
+    audio: AudioInput,
+    options?: AudioTranscriptionOptions,
+  ): Promise<AudioTranscriptionResult>;
+}
+
+export interface SpeechSynthesisOptions {
+  voice?: string;
+  language?: string;
+  speakingRate?: number; // 1 is normal speed
+}
+
+export interface SpeechSynthesisResult {
+  data: Buffer;
+  mimeType: string;
+  duration?: number; // Seconds
+}
+
+/**
+ * Contract every text-to-speech backend implements
+ */
+export interface TextToSpeechProvider {
+  readonly name: string;
+
+  synthesize(
+    text: string,
+    options?: SpeechSynthesisOptions,
+  ): Promise<SpeechSynthesisResult>;
+}
+
+/**
+ * One expected word aligned with what was heard
+ */
+export interface PronunciationWordScore {
+  word: string; // Expected word, empty for extra words the learner said
+  heard?: string; // Recognized word, missing when the word was skipped
+  score: number; // 0-100
+}
+
+export interface PronunciationAssessmentRequest {
+  audio: AudioInput;
+  referenceText: string; // What the learner was meant to say
+  transcript: string; // What the recognizer heard
+  language?: string;
+}
+
+export interface PronunciationAssessmentResult {
+  words: PronunciationWordScore[];
+  fluencyScore?: number; // 0-100, when the backend measures it
+}
+
+/**
+ * Contract every pronunciation backend implements
+ */
+export interface PronunciationAssessor {
+  readonly name: string;
+
+  assess(
+    request: PronunciationAssessmentRequest,
+  ): Promise<PronunciationAssessmentResult>;
+}
@@ -0,0 +1,18 @@
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Blob storage backend (local filesystem, S3-compatible...)
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+
+  get(key: string): Promise<{ data: Buffer; contentType: string }>;
+
+  delete(key: string): Promise<void>;
+}
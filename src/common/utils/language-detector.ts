@@ -0,0 +1,68 @@
+// Frequent function words per language. Tutor replies are short, so
+// stopwords are a steadier signal than character statistics.
+const STOPWORDS: Record<string, string> = {
+  en: 'the and is are you to of it that in for with this was what have your can do be not i my we',
+  es: 'el la los las que de y es en un una por para con no tu muy pero como su lo del se mi yo',
+  pt: 'o os as que de e em um uma para com não você muito mas como do da se eu seu sua isso está são',
+  fr: 'le la les et est un une des de du que pour avec pas vous tu je nous ce mais sur dans très il elle',
+  de: 'der die das und ist ein eine nicht sie du ich wir mit für auf den dem zu es auch aber sehr was wie sind',
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [
+    language,
+    new Set(words.split(' ')),
+  ]),
+);
+
+export interface LanguageGuess {
+  language: string; // ISO 639-1 code, 'other' for non-Latin scripts or 'unknown'
+  confidence: number; // Share of the evidence for the language, 0 to 1
+}
+
+/**
+ * Guess the language of a text from its stopwords. Texts without any known
+ * stopword are 'unknown' rather than a guess.
+ */
+export function detectLanguage(text: string): LanguageGuess {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length === 0) {
+    return { language: 'unknown', confidence: 0 };
+  }
+
+  const latin = letters.filter((letter) => /\p{Script=Latin}/u.test(letter));
+  const nonLatinShare = 1 - latin.length / letters.length;
+  if (nonLatinShare > 0.3) {
+    return { language: 'other', confidence: nonLatinShare };
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const hits: Record<string, number> = {};
+  let total = 0;
+  for (const word of words) {
+    for (const [language, stopwords] of Object.entries(STOPWORD_SETS)) {
+      if (stopwords.has(word)) {
+        hits[language] = (hits[language] || 0) + 1;
+        total++;
+      }
+    }
+  }
+
+  if (total === 0) {
+    return { language: 'unknown', confidence: 0 };
+  }
+
+  const [language, count] = Object.entries(hits).sort((a, b) => b[1] - a[1])[0];
+  return { language, confidence: Math.round((count / total) * 100) / 100 };
+}
+
+/**
+ * Whether a text reads as English. Texts too short to tell are accepted.
+ */
+export function isEnglish(text: string, minConfidence = 0.5): boolean {
+  const guess = detectLanguage(text);
+  if (guess.language === 'unknown') {
+    return true;
+  }
+  return guess.language === 'en' && guess.confidence >= minConfidence;
+}
@@ -0,0 +1,72 @@
+/**
+ * Lowercased words of a text, without punctuation, for overlap checks
+ */
+export function normalizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * Runs of n consecutive words, joined by a space
+ */
+export function wordNgrams(text: string, n: number): Set<string> {
+  const words = normalizeWords(text);
+  const ngrams = new Set<string>();
+
+  for (let i = 0; i + n <= words.length; i++) {
+    ngrams.add(words.slice(i, i + n).join(' '));
+  }
+
+  return ngrams;
+}
+
+/**
+ * Word n-grams of the candidate that also appear in the source, in the
+ * order they occur in the candidate. Used to spot copied passages.
+ */
+export function sharedNgrams(
+  source: string,
+  candidate: string,
+  n: number,
+): string[] {
+  const sourceNgrams = wordNgrams(source, n);
+  return Array.from(wordNgrams(candidate, n)).filter((ngram) =>
+    sourceNgrams.has(ngram),
+  );
+}
+
+/**
+ * Character ranges of the candidate covered by word n-grams that also
+ * appear in the source, merged where they overlap. Used to cut copied
+ * passages out of a text.
+ */
+export function sharedNgramSpans(
+  source: string,
+  candidate: string,
+  n: number,
+): Array<{ start: number; end: number }> {
+  const sourceNgrams = wordNgrams(source, n);
+  const words = Array.from(candidate.matchAll(/[\p{L}\p{N}']+/gu));
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (let i = 0; i + n <= words.length; i++) {
+    const ngram = words
+      .slice(i, i + n)
+      .map((word) => word[0].toLowerCase())
+      .join(' ');
+    if (!sourceNgrams.has(ngram)) {
+      continue;
+    }
+
+    const start = words[i].index;
+    const last = words[i + n - 1];
+    const end = last.index + last[0].length;
+    const previous = spans[spans.length - 1];
+    if (previous && start <= previous.end) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      spans.push({ start, end });
+    }
+  }
+
+  return spans;
+}
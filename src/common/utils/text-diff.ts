@@ -0,0 +1,85 @@
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Split text into words, whitespace runs and punctuation so joining the
+ * tokens gives back the original text
+ */
+export function tokenize(text: string): string[] {
+  return text.match(/\s+|[A-Za-z0-9']+|[^\sA-Za-z0-9']/g) || [];
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists. Consecutive tokens of
+ * the same type are merged into one segment.
+ */
+export function diffSequences(
+  before: string[],
+  after: string[],
+): DiffSegment[] {
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: Array<{ type: DiffSegment['type']; tokens: string[] }> = [];
+  const push = (type: DiffSegment['type'], token: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.tokens.push(token);
+    } else {
+      segments.push({ type, tokens: [token] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', before[i++]);
+    } else {
+      push('insert', after[j++]);
+    }
+  }
+  while (i < before.length) {
+    push('delete', before[i++]);
+  }
+  while (j < after.length) {
+    push('insert', after[j++]);
+  }
+
+  return segments.map(({ type, tokens }) => ({
+    type,
+    text: tokens.join(''),
+  }));
+}
+
+/**
+ * Word-level diff, whitespace and punctuation are tokens of their own
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  return diffSequences(tokenize(before), tokenize(after));
+}
+
+/**
+ * Line-level diff, each segment text keeps its line breaks
+ */
+export function diffLines(before: string, after: string): DiffSegment[] {
+  const toLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  return diffSequences(toLines(before), toLines(after));
+}
@@ -0,0 +1,40 @@
+import { LlmUsage } from '../interfaces/llm.interface';
+
+/**
+ * Approximate token count for providers that do not report usage.
+ * Words and punctuation are counted separately and long words are split in
+ * ~4 character pieces, which tracks BPE tokenizers closely for English text.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  const pieces: string[] = text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g) || [];
+
+  return pieces.reduce(
+    (count, piece) => count + Math.max(1, Math.ceil(piece.length / 4)),
+    0,
+  );
+}
+
+/**
+ * Estimated usage for a call whose provider did not report token counts
+ */
+export function estimateUsage(
+  promptParts: string[],
+  completion: string,
+): LlmUsage {
+  const promptTokens = promptParts.reduce(
+    (total, part) => total + estimateTokens(part),
+    0,
+  );
+  const completionTokens = estimateTokens(completion);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
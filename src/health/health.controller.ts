@@ -6,6 +6,7 @@ import {
   MongooseHealthIndicator,
 } from '@nestjs/terminus';
 import { Public } from '../common/decorators/public.decorator';
+import { LlmHealthIndicator } from './llm.health';
 
 @ApiTags('health')
 @Controller('health')
@@ -13,6 +14,7 @@ export class HealthController {
   constructor(
     private health: HealthCheckService,
     private db: MongooseHealthIndicator,
+    private llm: LlmHealthIndicator,
   ) {}
 
   @Get()
@@ -25,6 +27,9 @@ export class HealthController {
   @ApiResponse({ status: 200, description: 'System is healthy' })
   @ApiResponse({ status: 503, description: 'System is unhealthy' })
   check() {
-    return this.health.check([() => this.db.pingCheck('database')]);
+    return this.health.check([
+      () => this.db.pingCheck('database'),
+      () => this.llm.isHealthy('llm'),
+    ]);
   }
 }
@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { TerminusModule } from '@nestjs/terminus';
 import { HealthController } from './health.controller';
+import { LlmHealthIndicator } from './llm.health';
 
 @Module({
   imports: [TerminusModule],
   controllers: [HealthController],
+  providers: [LlmHealthIndicator],
 })
 export class HealthModule {}
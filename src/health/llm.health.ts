@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { HealthIndicatorService } from '@nestjs/terminus';
+import { LlmProviderRegistry } from '../modules/llm/llm-provider.registry';
+
+@Injectable()
+export class LlmHealthIndicator {
+  constructor(
+    private healthIndicatorService: HealthIndicatorService,
+    private llmProviderRegistry: LlmProviderRegistry,
+  ) {}
+
+  /**
+   * Down while the circuits of the default provider and all its fallbacks
+   * are open. Missing API keys are reported by the admin system health.
+   */
+  isHealthy(key: string) {
+    const indicator = this.healthIndicatorService.check(key);
+    const provider = this.llmProviderRegistry.getDefault();
+
+    const data = {
+      provider: provider.name,
+      circuits: provider.getCircuits().map(({ name, state, retryAt }) => ({
+        name,
+        state,
+        retryAt,
+      })),
+    };
+
+    return provider.isAvailable() ? indicator.up(data) : indicator.down(data);
+  }
+}
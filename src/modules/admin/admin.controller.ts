@@ -8,6 +8,7 @@ import {
   Param,
   Query,
   UseGuards,
+  ParseIntPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,9 +20,22 @@ import {
 } from '@nestjs/swagger';
 import { AdminService } from './admin.service';
 import { CreatePromptTemplateDto } from '../prompt/dto/create-prompt-template.dto';
+import { RollbackPromptTemplateDto } from '../prompt/dto/rollback-prompt-template.dto';
+import { PreviewPromptDto } from '../prompt/dto/preview-prompt.dto';
+import { CreateExperimentDto } from '../experiment/dto/create-experiment.dto';
+import { PromoteExperimentDto } from '../experiment/dto/promote-experiment.dto';
+import { CreateEvaluationCaseDto } from '../evaluation/dto/create-evaluation-case.dto';
+import { RunEvaluationDto } from '../evaluation/dto/run-evaluation.dto';
+import { CreateInjectionRuleDto } from '../moderation/dto/create-injection-rule.dto';
+import { CheckInjectionDto } from '../moderation/dto/check-injection.dto';
+import { UpsertQuotaPlanDto } from '../quota/dto/upsert-quota-plan.dto';
+import { AssignQuotaPlanDto } from '../quota/dto/assign-quota-plan.dto';
+import { UsageQueryDto } from '../usage/dto/usage-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../common/interfaces/auth.interface';
 
 @ApiTags('admin')
 @ApiBearerAuth('JWT-auth')
@@ -61,6 +75,29 @@ export class AdminController {
     return this.adminService.getAllTemplates();
   }
 
+  @Post('prompts/preview')
+  @ApiOperation({
+    summary: 'Preview compiled prompt',
+    description:
+      'Dry-run prompt compilation for a sample context (level, topic, goals, history) or an existing conversation. Returns the compiled layers, the templates selected by targeting and the skipped ones with the reasons, variables that resolved to nothing and estimated token counts. With run=true the prompt is also sent to the provider and its reply is included',
+  })
+  @ApiResponse({ status: 201, description: 'Prompt preview' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation error, unknown provider or run without a final user message',
+  })
+  @ApiResponse({ status: 404, description: 'Conversation not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  @ApiResponse({ status: 503, description: 'Provider unavailable for the run' })
+  async previewPrompt(
+    @Body() dto: PreviewPromptDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.previewPrompt(dto, user);
+  }
+
   @Get('prompts/:name')
   @ApiOperation({
     summary: 'Get prompt template by name',
@@ -94,14 +131,18 @@ export class AdminController {
   @ApiResponse({ status: 400, description: 'Validation error' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
-  async createPrompt(@Body() dto: CreatePromptTemplateDto) {
-    return this.adminService.createTemplate(dto);
+  async createPrompt(
+    @Body() dto: CreatePromptTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.createTemplate(dto, user);
   }
 
   @Put('prompts/:name')
   @ApiOperation({
     summary: 'Update prompt template',
-    description: 'Update an existing prompt template by name',
+    description:
+      'Update an existing prompt template by name. The result is stored as a new version; templates cannot be renamed',
   })
   @ApiParam({
     name: 'name',
@@ -119,14 +160,16 @@ export class AdminController {
   async updatePrompt(
     @Param('name') name: string,
     @Body() updates: Partial<CreatePromptTemplateDto>,
+    @CurrentUser() user: AuthenticatedUser,
   ) {
-    return this.adminService.updateTemplate(name, updates);
+    return this.adminService.updateTemplate(name, updates, user);
   }
 
   @Delete('prompts/:name')
   @ApiOperation({
     summary: 'Delete prompt template',
-    description: 'Delete a prompt template by name',
+    description:
+      'Delete a prompt template by name. Its version history is kept',
   })
   @ApiParam({
     name: 'name',
@@ -161,8 +204,493 @@ export class AdminController {
   @ApiResponse({ status: 404, description: 'Template not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
-  async togglePrompt(@Param('name') name: string) {
-    return this.adminService.toggleTemplateStatus(name);
+  async togglePrompt(
+    @Param('name') name: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.toggleTemplateStatus(name, user);
+  }
+
+  @Get('prompts/:name/versions')
+  @ApiOperation({
+    summary: 'List template versions',
+    description:
+      'Every stored version of a prompt template, newest first, with author and timestamp',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Template name',
+    example: 'system_core',
+  })
+  @ApiResponse({ status: 200, description: 'Versions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getPromptVersions(@Param('name') name: string) {
+    return this.adminService.getTemplateVersions(name);
+  }
+
+  @Get('prompts/:name/versions/:version')
+  @ApiOperation({
+    summary: 'Get template version',
+    description: 'A single stored version of a prompt template',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Template name',
+    example: 'system_core',
+  })
+  @ApiParam({ name: 'version', description: 'Version number', example: 1 })
+  @ApiResponse({ status: 200, description: 'Version retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Version not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getPromptVersion(
+    @Param('name') name: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.adminService.getTemplateVersion(name, version);
+  }
+
+  @Get('prompts/:name/diff')
+  @ApiOperation({
+    summary: 'Diff template versions',
+    description:
+      'Changed fields and a line diff of the template body between two versions',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Template name',
+    example: 'system_core',
+  })
+  @ApiQuery({ name: 'from', description: 'Base version', example: 1 })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: 'Compared version, defaults to the current one',
+    example: 2,
+  })
+  @ApiResponse({ status: 200, description: 'Diff computed successfully' })
+  @ApiResponse({ status: 404, description: 'Template or version not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async diffPromptVersions(
+    @Param('name') name: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    return this.adminService.diffTemplateVersions(name, from, to);
+  }
+
+  @Post('prompts/:name/rollback')
+  @ApiOperation({
+    summary: 'Roll back template',
+    description:
+      'Restore the content of an earlier version. The restored content is stored as a new version, so the rollback can itself be undone',
+  })
+  @ApiParam({
+    name: 'name',
+    description: 'Template name',
+    example: 'system_core',
+  })
+  @ApiResponse({ status: 201, description: 'Template rolled back' })
+  @ApiResponse({ status: 404, description: 'Template or version not found' })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async rollbackPrompt(
+    @Param('name') name: string,
+    @Body() dto: RollbackPromptTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.rollbackTemplate(name, dto.version, user);
+  }
+
+  // ==================== Experiments ====================
+
+  @Get('experiments')
+  @ApiOperation({
+    summary: 'Get all experiments',
+    description: 'List prompt template experiments, newest first',
+  })
+  @ApiResponse({ status: 200, description: 'Experiments retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getExperiments() {
+    return this.adminService.getExperiments();
+  }
+
+  @Post('experiments')
+  @ApiOperation({
+    summary: 'Create experiment',
+    description:
+      'Create a draft A/B experiment with alternative bodies for a prompt template. A variant without a template is the control',
+  })
+  @ApiResponse({ status: 201, description: 'Experiment created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or invalid variant template',
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 409, description: 'Experiment already exists' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async createExperiment(
+    @Body() dto: CreateExperimentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.createExperiment(dto, user);
+  }
+
+  @Get('experiments/:name')
+  @ApiOperation({ summary: 'Get experiment by name' })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 200, description: 'Experiment found' })
+  @ApiResponse({ status: 404, description: 'Experiment not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getExperiment(@Param('name') name: string) {
+    return this.adminService.getExperiment(name);
+  }
+
+  @Get('experiments/:name/results')
+  @ApiOperation({
+    summary: 'Get experiment results',
+    description:
+      'Per-variant metrics: replies, conversations, average rating, average change in analysis score between the user messages before and after a reply, average conversation length and the share of replies answered with a prompt injection',
+  })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 200, description: 'Results retrieved' })
+  @ApiResponse({ status: 404, description: 'Experiment not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getExperimentResults(@Param('name') name: string) {
+    return this.adminService.getExperimentResults(name);
+  }
+
+  @Post('experiments/:name/start')
+  @ApiOperation({
+    summary: 'Start experiment',
+    description:
+      'Start or resume bucketing users into the variants. Only one experiment per template can run',
+  })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 201, description: 'Experiment running' })
+  @ApiResponse({
+    status: 400,
+    description: 'Experiment completed, running, or template already tested',
+  })
+  @ApiResponse({ status: 404, description: 'Experiment not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async startExperiment(@Param('name') name: string) {
+    return this.adminService.startExperiment(name);
+  }
+
+  @Post('experiments/:name/stop')
+  @ApiOperation({
+    summary: 'Stop experiment',
+    description: 'Serve the stored template to everyone again',
+  })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 201, description: 'Experiment stopped' })
+  @ApiResponse({ status: 400, description: 'Experiment not running' })
+  @ApiResponse({ status: 404, description: 'Experiment not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async stopExperiment(@Param('name') name: string) {
+    return this.adminService.stopExperiment(name);
+  }
+
+  @Post('experiments/:name/promote')
+  @ApiOperation({
+    summary: 'Promote variant',
+    description:
+      'Complete the experiment and store the winning variant as a new version of the template',
+  })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 201, description: 'Variant promoted' })
+  @ApiResponse({ status: 400, description: 'Experiment already completed' })
+  @ApiResponse({ status: 404, description: 'Experiment or variant not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async promoteExperimentVariant(
+    @Param('name') name: string,
+    @Body() dto: PromoteExperimentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.promoteExperimentVariant(name, dto.variant, user);
+  }
+
+  @Delete('experiments/:name')
+  @ApiOperation({
+    summary: 'Delete experiment',
+    description: 'Messages keep the variant they were served',
+  })
+  @ApiParam({ name: 'name', description: 'Experiment name' })
+  @ApiResponse({ status: 200, description: 'Experiment deleted' })
+  @ApiResponse({ status: 404, description: 'Experiment not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async deleteExperiment(@Param('name') name: string) {
+    return this.adminService.deleteExperiment(name);
+  }
+
+  // ==================== Evaluations ====================
+
+  @Get('evaluations/cases')
+  @ApiOperation({
+    summary: 'Get evaluation cases',
+    description: 'Golden conversations replayed by evaluation runs',
+  })
+  @ApiQuery({ name: 'suite', required: false, description: 'Filter by suite' })
+  @ApiResponse({ status: 200, description: 'Cases retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getEvaluationCases(@Query('suite') suite?: string) {
+    return this.adminService.getEvaluationCases(suite);
+  }
+
+  @Post('evaluations/cases')
+  @ApiOperation({
+    summary: 'Create or replace evaluation case',
+    description:
+      'Store a golden conversation with its assertions: corrects (reply contains the expected correction), english, no_system_prompt_leak and max_length',
+  })
+  @ApiResponse({ status: 201, description: 'Case stored' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation error, incomplete assertion or history not ending with a user message',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async upsertEvaluationCase(@Body() dto: CreateEvaluationCaseDto) {
+    return this.adminService.upsertEvaluationCase(dto);
+  }
+
+  @Delete('evaluations/cases/:name')
+  @ApiOperation({ summary: 'Delete evaluation case' })
+  @ApiParam({ name: 'name', description: 'Case name' })
+  @ApiResponse({ status: 200, description: 'Case deleted' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async deleteEvaluationCase(@Param('name') name: string) {
+    return this.adminService.deleteEvaluationCase(name);
+  }
+
+  @Post('evaluations/runs')
+  @ApiOperation({
+    summary: 'Run evaluation',
+    description:
+      'Replay every active case of a suite through the current templates and a provider (e.g. "mock") and store the pass/fail report. Also available as `pnpm run evaluate`',
+  })
+  @ApiResponse({ status: 201, description: 'Run finished and stored' })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown provider or suite without active cases',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async runEvaluation(
+    @Body() dto: RunEvaluationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.adminService.runEvaluation(dto, user);
+  }
+
+  @Get('evaluations/runs')
+  @ApiOperation({
+    summary: 'Get evaluation runs',
+    description: 'Recent runs with their summary, newest first',
+  })
+  @ApiQuery({ name: 'suite', required: false, description: 'Filter by suite' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Number of runs (default 20)',
+  })
+  @ApiResponse({ status: 200, description: 'Runs retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getEvaluationRuns(
+    @Query('suite') suite?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.adminService.getEvaluationRuns(suite, limit);
+  }
+
+  @Get('evaluations/runs/compare')
+  @ApiOperation({
+    summary: 'Compare evaluation runs',
+    description:
+      'Cases that regressed or were fixed from the base to the head run, and the template versions that changed in between',
+  })
+  @ApiQuery({ name: 'base', description: 'Earlier run ID' })
+  @ApiQuery({ name: 'head', description: 'Later run ID' })
+  @ApiResponse({ status: 200, description: 'Comparison' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async compareEvaluationRuns(
+    @Query('base') base: string,
+    @Query('head') head: string,
+  ) {
+    return this.adminService.compareEvaluationRuns(base, head);
+  }
+
+  @Get('evaluations/runs/:id')
+  @ApiOperation({
+    summary: 'Get evaluation run',
+    description: 'Full report with the reply and assertion results per case',
+  })
+  @ApiParam({ name: 'id', description: 'Run ID' })
+  @ApiResponse({ status: 200, description: 'Run found' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getEvaluationRun(@Param('id') id: string) {
+    return this.adminService.getEvaluationRun(id);
+  }
+
+  // ==================== Moderation ====================
+
+  @Get('moderation/rules')
+  @ApiOperation({
+    summary: 'Get injection rules',
+    description:
+      'Regular expressions scored by the regex injection detector, with their weights',
+  })
+  @ApiResponse({ status: 200, description: 'Rules retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getInjectionRules() {
+    return this.adminService.getInjectionRules();
+  }
+
+  @Post('moderation/rules')
+  @ApiOperation({
+    summary: 'Create injection rule',
+    description: 'Applied to new messages right away',
+  })
+  @ApiResponse({ status: 201, description: 'Rule created' })
+  @ApiResponse({ status: 400, description: 'Invalid regular expression' })
+  @ApiResponse({ status: 409, description: 'Rule already exists' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async createInjectionRule(@Body() dto: CreateInjectionRuleDto) {
+    return this.adminService.createInjectionRule(dto);
+  }
+
+  @Put('moderation/rules/:name')
+  @ApiOperation({ summary: 'Update injection rule' })
+  @ApiParam({ name: 'name', description: 'Rule name' })
+  @ApiResponse({ status: 200, description: 'Rule updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid regular expression or rename attempt',
+  })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async updateInjectionRule(
+    @Param('name') name: string,
+    @Body() updates: Partial<CreateInjectionRuleDto>,
+  ) {
+    return this.adminService.updateInjectionRule(name, updates);
+  }
+
+  @Delete('moderation/rules/:name')
+  @ApiOperation({ summary: 'Delete injection rule' })
+  @ApiParam({ name: 'name', description: 'Rule name' })
+  @ApiResponse({ status: 200, description: 'Rule deleted' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async deleteInjectionRule(@Param('name') name: string) {
+    return this.adminService.deleteInjectionRule(name);
+  }
+
+  @Post('moderation/check')
+  @ApiOperation({
+    summary: 'Check message for injection',
+    description:
+      'Run every configured detector on a message and return the signals, risk score and action, without storing or flagging anything',
+  })
+  @ApiResponse({ status: 201, description: 'Assessment' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async checkInjection(@Body() dto: CheckInjectionDto) {
+    return this.adminService.checkInjection(dto.content);
+  }
+
+  @Get('moderation/events')
+  @ApiOperation({
+    summary: 'Get moderation events',
+    description:
+      'Messages that were sanitized, warned about, blocked or flagged, newest first',
+  })
+  @ApiQuery({ name: 'userId', required: false, description: 'Filter by user' })
+  @ApiQuery({
+    name: 'action',
+    required: false,
+    enum: ['sanitize', 'warn', 'block', 'flag'],
+    description: 'Filter by action',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Number of results (default 50)',
+  })
+  @ApiQuery({
+    name: 'skip',
+    required: false,
+    description: 'Number of results to skip (default 0)',
+  })
+  @ApiResponse({ status: 200, description: 'Events retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getModerationEvents(
+    @Query('userId') userId?: string,
+    @Query('action') action?: string,
+    @Query('limit') limit?: string,
+    @Query('skip') skip?: string,
+  ) {
+    return this.adminService.getModerationEvents(
+      { userId, action },
+      {
+        limit: limit ? parseInt(limit) : 50,
+        skip: skip ? parseInt(skip) : 0,
+      },
+    );
+  }
+
+  @Get('moderation/flagged-users')
+  @ApiOperation({
+    summary: 'Get flagged users',
+    description:
+      'Accounts flagged for review after a message reached the flag threshold',
+  })
+  @ApiResponse({ status: 200, description: 'Flagged users retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getFlaggedUsers() {
+    return this.adminService.getFlaggedUsers();
+  }
+
+  @Post('moderation/users/:id/unflag')
+  @ApiOperation({
+    summary: 'Unflag user',
+    description: 'Clear the review flag of an account',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'Flag cleared' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async unflagUser(@Param('id') id: string) {
+    return this.adminService.unflagUser(id);
   }
 
   // ==================== Statistics ====================
@@ -259,11 +787,57 @@ export class AdminController {
     return this.adminService.getUserStats();
   }
 
+  @Get('stats/usage')
+  @ApiOperation({
+    summary: 'Get token usage statistics',
+    description:
+      'Get token usage totals from the usage ledger, broken down by model, operation and top users',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage statistics retrieved successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid conversation ID or date' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getUsageStats(@Query() query: UsageQueryDto) {
+    return this.adminService.getUsageStats({
+      userId: query.userId,
+      conversationId: query.conversationId,
+      model: query.model,
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+    });
+  }
+
+  @Get('stats/usage/daily')
+  @ApiOperation({
+    summary: 'Get daily token usage',
+    description:
+      'Get token usage aggregated per day (UTC), with a per-model breakdown',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Daily usage retrieved successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid conversation ID or date' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getDailyUsageStats(@Query() query: UsageQueryDto) {
+    return this.adminService.getDailyUsageStats({
+      userId: query.userId,
+      conversationId: query.conversationId,
+      model: query.model,
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+    });
+  }
+
   @Get('health')
   @ApiOperation({
     summary: 'System health check',
     description:
-      'Get system health status including MongoDB and Gemini API status',
+      'Get system health status including MongoDB and LLM provider status',
   })
   @ApiResponse({
     status: 200,
@@ -273,6 +847,90 @@ export class AdminController {
     return this.adminService.getSystemHealth();
   }
 
+  // ==================== Quotas ====================
+
+  @Get('quota/plans')
+  @ApiOperation({
+    summary: 'Get quota plans',
+    description: 'List all quota plans with their daily and monthly limits',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quota plans retrieved successfully',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getQuotaPlans() {
+    return this.adminService.getQuotaPlans();
+  }
+
+  @Put('quota/plans/:name')
+  @ApiOperation({
+    summary: 'Create or update quota plan',
+    description:
+      'Create a quota plan or replace its limits. Omitted limits are unlimited',
+  })
+  @ApiParam({ name: 'name', description: 'Plan name', example: 'premium' })
+  @ApiResponse({ status: 200, description: 'Quota plan saved successfully' })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async upsertQuotaPlan(
+    @Param('name') name: string,
+    @Body() dto: UpsertQuotaPlanDto,
+  ) {
+    return this.adminService.upsertQuotaPlan(name, dto);
+  }
+
+  @Get('users/:id/quota')
+  @ApiOperation({
+    summary: 'Get user quota',
+    description: "Get a user's quota plan, limits and current consumption",
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'User quota retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async getUserQuota(@Param('id') id: string) {
+    return this.adminService.getUserQuota(id);
+  }
+
+  @Put('users/:id/plan')
+  @ApiOperation({
+    summary: 'Assign quota plan',
+    description: 'Assign a quota plan to a user',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Quota plan assigned successfully' })
+  @ApiResponse({ status: 404, description: 'User or plan not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async assignQuotaPlan(
+    @Param('id') id: string,
+    @Body() dto: AssignQuotaPlanDto,
+  ) {
+    return this.adminService.assignQuotaPlan(id, dto.plan);
+  }
+
+  @Post('users/:id/quota/reset')
+  @ApiOperation({
+    summary: 'Reset user quota counters',
+    description:
+      'Stop counting usage recorded before now toward the user quota. The usage ledger is kept',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'Quota counters reset' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires admin role' })
+  async resetUserQuota(@Param('id') id: string) {
+    return this.adminService.resetUserQuota(id);
+  }
+
   // ==================== Conversations Management ====================
 
   @Get('conversations')
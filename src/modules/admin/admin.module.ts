@@ -13,6 +13,12 @@ import {
 import { Message, MessageSchema } from '../conversation/schemas/message.schema';
 import { PromptModule } from '../prompt/prompt.module';
 import { ConversationModule } from '../conversation/conversation.module';
+import { UsageModule } from '../usage/usage.module';
+import { QuotaModule } from '../quota/quota.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { ExperimentModule } from '../experiment/experiment.module';
+import { EvaluationModule } from '../evaluation/evaluation.module';
+import { ModerationModule } from '../moderation/moderation.module';
 
 @Module({
   imports: [
@@ -23,6 +29,12 @@ import { ConversationModule } from '../conversation/conversation.module';
     ]),
     PromptModule,
     ConversationModule,
+    UsageModule,
+    QuotaModule,
+    JobsModule,
+    ExperimentModule,
+    EvaluationModule,
+    ModerationModule,
   ],
   controllers: [AdminController],
   providers: [AdminService],
@@ -1,4 +1,9 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import {
@@ -14,9 +19,34 @@ import {
   MessageDocument,
 } from '../conversation/schemas/message.schema';
 import { PromptService } from '../prompt/prompt.service';
+import { PromptHistoryService } from '../prompt/prompt-history.service';
 import { ConversationService } from '../conversation/conversation.service';
-import { GeminiService } from '../gemini/gemini.service';
+import { ContextWindowService } from '../conversation/context/context-window.service';
+import { LlmProviderRegistry } from '../llm/llm-provider.registry';
+import { UsageFilters, UsageService } from '../usage/usage.service';
+import { QuotaService } from '../quota/quota.service';
+import { JobsService } from '../jobs/jobs.service';
+import { ExperimentService } from '../experiment/experiment.service';
+import { CreateExperimentDto } from '../experiment/dto/create-experiment.dto';
+import { EvaluationService } from '../evaluation/evaluation.service';
+import { CreateEvaluationCaseDto } from '../evaluation/dto/create-evaluation-case.dto';
+import { RunEvaluationDto } from '../evaluation/dto/run-evaluation.dto';
+import { ModerationService } from '../moderation/moderation.service';
+import { CreateInjectionRuleDto } from '../moderation/dto/create-injection-rule.dto';
+import { UpsertQuotaPlanDto } from '../quota/dto/upsert-quota-plan.dto';
 import { CreatePromptTemplateDto } from '../prompt/dto/create-prompt-template.dto';
+import { PreviewPromptDto } from '../prompt/dto/preview-prompt.dto';
+import { PromptTemplateAuthor } from '../../common/interfaces/prompt.interface';
+import {
+  ConversationContext,
+  ConversationMetadata,
+} from '../../common/interfaces/conversation.interface';
+import { AuthenticatedUser } from '../../common/interfaces/auth.interface';
+import {
+  ExperimentResults,
+  ExperimentStatus,
+  ExperimentVariantMetrics,
+} from '../../common/interfaces/experiment.interface';
 
 @Injectable()
 export class AdminService {
@@ -30,8 +60,16 @@ export class AdminService {
     @InjectModel(Message.name)
     private messageModel: Model<MessageDocument>,
     private promptService: PromptService,
+    private promptHistoryService: PromptHistoryService,
     private conversationService: ConversationService,
-    private geminiService: GeminiService,
+    private contextWindowService: ContextWindowService,
+    private llmProviderRegistry: LlmProviderRegistry,
+    private usageService: UsageService,
+    private quotaService: QuotaService,
+    private jobsService: JobsService,
+    private experimentService: ExperimentService,
+    private evaluationService: EvaluationService,
+    private moderationService: ModerationService,
   ) {}
 
   // ==================== Prompt Templates CRUD ====================
@@ -59,17 +97,20 @@ export class AdminService {
 
   async createTemplate(
     dto: CreatePromptTemplateDto,
+    author?: PromptTemplateAuthor,
   ): Promise<PromptTemplateDocument> {
-    return this.promptService.createTemplate(dto);
+    return this.promptService.createTemplate(dto, author);
   }
 
   async updateTemplate(
     name: string,
     updates: Partial<CreatePromptTemplateDto>,
+    author?: PromptTemplateAuthor,
   ): Promise<PromptTemplateDocument> {
     const result = await this.promptService.updateTemplate(
       name,
       updates as any,
+      author,
     );
     if (!result) {
       throw new NotFoundException(`Template '${name}' not found`);
@@ -82,9 +123,414 @@ export class AdminService {
     return { message: `Template '${name}' deleted successfully` };
   }
 
-  async toggleTemplateStatus(name: string): Promise<PromptTemplateDocument> {
+  async toggleTemplateStatus(
+    name: string,
+    author?: PromptTemplateAuthor,
+  ): Promise<PromptTemplateDocument> {
     const template = await this.getTemplateByName(name);
-    return this.updateTemplate(name, { isActive: !template.isActive });
+    return this.updateTemplate(name, { isActive: !template.isActive }, author);
+  }
+
+  // ==================== Prompt Template Versions ====================
+
+  async getTemplateVersions(name: string) {
+    const versions = await this.promptHistoryService.listVersions(name);
+    if (versions.length === 0) {
+      throw new NotFoundException(`Template '${name}' not found`);
+    }
+    return versions;
+  }
+
+  async getTemplateVersion(name: string, version: number) {
+    return this.promptHistoryService.getVersion(name, version);
+  }
+
+  /**
+   * Diff two versions; `to` defaults to the current version
+   */
+  async diffTemplateVersions(name: string, from: number, to?: number) {
+    const target = to ?? (await this.getTemplateByName(name)).version;
+    return this.promptHistoryService.diffVersions(name, from, target);
+  }
+
+  async rollbackTemplate(
+    name: string,
+    version: number,
+    author?: PromptTemplateAuthor,
+  ): Promise<PromptTemplateDocument> {
+    return this.promptService.rollbackTemplate(name, version, author);
+  }
+
+  // ==================== Prompt Preview ====================
+
+  /**
+   * Compile the prompt for a sample or existing conversation and optionally
+   * run it against a provider
+   */
+  async previewPrompt(dto: PreviewPromptDto, admin: AuthenticatedUser) {
+    let metadata: ConversationMetadata = {};
+    let history: ConversationContext['history'] = [];
+    let summary: string | undefined;
+    let userId = admin.userId;
+    let conversationType = dto.conversationType;
+    let providerName = dto.provider;
+
+    if (dto.conversationId) {
+      const conversation = await this.conversationService.getConversation(
+        dto.conversationId,
+      );
+      const messages = await this.conversationService.getConversationMessages(
+        dto.conversationId,
+      );
+      // The same window of history a real turn would send
+      const contextWindow = this.contextWindowService.buildWindow(
+        conversation,
+        messages,
+      );
+      metadata = { ...(conversation.metadata as ConversationMetadata) };
+      history = contextWindow.messages.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      }));
+      summary = contextWindow.summary;
+      userId = conversation.userId;
+      conversationType ??= conversation.conversationType;
+      providerName ??= conversation.provider;
+    }
+
+    const overrides: ConversationMetadata = {
+      level: dto.level,
+      topic: dto.topic,
+      userGoals: dto.userGoals,
+      simulationType: dto.simulationType,
+      topicTags: dto.topicTags,
+      locale: dto.locale,
+    };
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) {
+        metadata[key] = value;
+      }
+    }
+    history = [...history, ...(dto.history || [])];
+
+    const preview = await this.promptService.previewPrompt({
+      userId,
+      conversationId: dto.conversationId || 'preview',
+      conversationType,
+      history,
+      summary,
+      metadata,
+    });
+
+    if (!dto.run) {
+      return preview;
+    }
+
+    if (history[history.length - 1]?.role !== 'user') {
+      throw new BadRequestException(
+        'Running a preview needs a history ending with a user message',
+      );
+    }
+    if (providerName && !this.llmProviderRegistry.has(providerName)) {
+      throw new BadRequestException(
+        `Unknown LLM provider '${providerName}'. Available: ${this.llmProviderRegistry.getProviderNames().join(', ')}`,
+      );
+    }
+
+    const provider = this.llmProviderRegistry.resolve(providerName);
+    const response = await provider.generate(
+      history.map((msg) => ({
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: msg.content,
+      })),
+      {
+        systemInstructions: [
+          preview.compiled.systemPrompt,
+          preview.compiled.userPrompt,
+          preview.compiled.contextPrompt,
+        ],
+      },
+    );
+
+    await this.usageService.record({
+      userId: admin.userId,
+      conversationId: dto.conversationId,
+      provider: response.provider || provider.name,
+      model: response.model,
+      operation: 'preview',
+      usage: response.usage,
+    });
+
+    return {
+      ...preview,
+      reply: {
+        text: response.text,
+        provider: response.provider || provider.name,
+        model: response.model,
+        usage: response.usage,
+        processingTime: response.processingTime,
+      },
+    };
+  }
+
+  // ==================== Experiments ====================
+
+  async getExperiments() {
+    return this.experimentService.listExperiments();
+  }
+
+  async getExperiment(name: string) {
+    return this.experimentService.getExperiment(name);
+  }
+
+  async createExperiment(
+    dto: CreateExperimentDto,
+    author?: PromptTemplateAuthor,
+  ) {
+    return this.experimentService.createExperiment(dto, author);
+  }
+
+  async startExperiment(name: string) {
+    return this.experimentService.startExperiment(name);
+  }
+
+  async stopExperiment(name: string) {
+    return this.experimentService.stopExperiment(name);
+  }
+
+  async promoteExperimentVariant(
+    name: string,
+    variant: string,
+    author?: PromptTemplateAuthor,
+  ) {
+    return this.experimentService.promoteVariant(name, variant, author);
+  }
+
+  async deleteExperiment(name: string): Promise<{ message: string }> {
+    await this.experimentService.deleteExperiment(name);
+    return { message: `Experiment '${name}' deleted successfully` };
+  }
+
+  /**
+   * Outcome metrics per variant, from the assistant messages that recorded
+   * the variant. Score deltas and injections are measured on the user
+   * message that answers each reply.
+   */
+  async getExperimentResults(name: string): Promise<ExperimentResults> {
+    const experiment = await this.experimentService.getExperiment(name);
+
+    const replies = await this.messageModel
+      .find({ 'metadata.experiments.experiment': name })
+      .select('conversationId rating metadata.experiments')
+      .lean()
+      .exec();
+    const conversationIds = Array.from(
+      new Set(replies.map((reply) => reply.conversationId.toString())),
+    );
+
+    // Every message of the conversations, in order, to find the user
+    // messages around each reply
+    const messages = await this.messageModel
+      .find({ conversationId: { $in: conversationIds } })
+      .select('conversationId role analysis.score metadata.moderation')
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+    const threads = new Map<string, typeof messages>();
+    const positions = new Map<string, number>();
+    for (const message of messages) {
+      const thread = threads.get(message.conversationId.toString()) || [];
+      positions.set((message._id as any).toString(), thread.length);
+      thread.push(message);
+      threads.set(message.conversationId.toString(), thread);
+    }
+
+    const variants = new Map(
+      experiment.variants.map((variant) => [
+        variant.name,
+        {
+          replies: 0,
+          conversations: new Set<string>(),
+          ratings: [] as number[],
+          scoreDeltas: [] as number[],
+          answered: 0,
+          flagged: 0,
+        },
+      ]),
+    );
+
+    for (const reply of replies) {
+      const variantName = reply.metadata?.experiments?.find(
+        (assignment) => assignment.experiment === name,
+      )?.variant;
+      const stats = variantName && variants.get(variantName);
+      if (!stats) {
+        continue;
+      }
+
+      const conversationId = reply.conversationId.toString();
+      stats.replies++;
+      stats.conversations.add(conversationId);
+      if (reply.rating) {
+        stats.ratings.push(reply.rating.score);
+      }
+
+      const thread = threads.get(conversationId) || [];
+      const position = positions.get((reply._id as any).toString()) ?? -1;
+      const previous = thread
+        .slice(0, Math.max(position, 0))
+        .reverse()
+        .find((message) => message.role === 'user');
+      const next =
+        position >= 0
+          ? thread
+              .slice(position + 1)
+              .find((message) => message.role === 'user')
+          : undefined;
+
+      if (next) {
+        stats.answered++;
+        if (next.metadata?.moderation) {
+          stats.flagged++;
+        }
+      }
+      const before = previous?.analysis?.score;
+      const after = next?.analysis?.score;
+      if (typeof before === 'number' && typeof after === 'number') {
+        stats.scoreDeltas.push(after - before);
+      }
+    }
+
+    const metrics: ExperimentVariantMetrics[] = Array.from(
+      variants,
+      ([variant, stats]) => ({
+        variant,
+        replies: stats.replies,
+        conversations: stats.conversations.size,
+        ratings: {
+          count: stats.ratings.length,
+          average: this.average(stats.ratings),
+        },
+        scoreDelta: {
+          samples: stats.scoreDeltas.length,
+          average: this.average(stats.scoreDeltas),
+        },
+        averageConversationLength: this.average(
+          Array.from(
+            stats.conversations,
+            (conversationId) => threads.get(conversationId)?.length ?? 0,
+          ),
+        ),
+        injectionRate:
+          stats.answered > 0
+            ? Math.round((stats.flagged / stats.answered) * 10000) / 10000
+            : null,
+      }),
+    );
+
+    return {
+      experiment: experiment.name,
+      templateName: experiment.templateName,
+      status: experiment.status as ExperimentStatus,
+      startedAt: experiment.startedAt,
+      endedAt: experiment.endedAt,
+      variants: metrics,
+    };
+  }
+
+  private average(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    const total = values.reduce((sum, value) => sum + value, 0);
+    return Math.round((total / values.length) * 100) / 100;
+  }
+
+  // ==================== Evaluations ====================
+
+  async getEvaluationCases(suite?: string) {
+    return this.evaluationService.listCases(suite);
+  }
+
+  async upsertEvaluationCase(dto: CreateEvaluationCaseDto) {
+    return this.evaluationService.upsertCase(dto);
+  }
+
+  async deleteEvaluationCase(name: string): Promise<{ message: string }> {
+    await this.evaluationService.deleteCase(name);
+    return { message: `Evaluation case '${name}' deleted successfully` };
+  }
+
+  async runEvaluation(dto: RunEvaluationDto, author?: PromptTemplateAuthor) {
+    return this.evaluationService.runSuite({
+      ...dto,
+      triggeredBy: 'admin',
+      author,
+    });
+  }
+
+  async getEvaluationRuns(suite?: string, limit?: number) {
+    return this.evaluationService.listRuns(suite, limit);
+  }
+
+  async getEvaluationRun(id: string) {
+    return this.evaluationService.getRun(id);
+  }
+
+  async compareEvaluationRuns(baseId: string, headId: string) {
+    return this.evaluationService.compareRuns(baseId, headId);
+  }
+
+  // ==================== Moderation ====================
+
+  async getInjectionRules() {
+    return this.moderationService.listRules();
+  }
+
+  async createInjectionRule(dto: CreateInjectionRuleDto) {
+    return this.moderationService.createRule(dto);
+  }
+
+  async updateInjectionRule(
+    name: string,
+    updates: Partial<CreateInjectionRuleDto>,
+  ) {
+    return this.moderationService.updateRule(name, updates);
+  }
+
+  async deleteInjectionRule(name: string): Promise<{ message: string }> {
+    await this.moderationService.deleteRule(name);
+    return { message: `Injection rule '${name}' deleted successfully` };
+  }
+
+  /**
+   * Score a message without storing anything, with the thresholds it is
+   * compared against
+   */
+  async checkInjection(content: string) {
+    return {
+      ...(await this.moderationService.checkInput(content)),
+      thresholds: this.moderationService.getThresholds(),
+    };
+  }
+
+  async getModerationEvents(
+    filters: { userId?: string; action?: string },
+    pagination: { limit: number; skip: number },
+  ) {
+    return this.moderationService.listEvents(
+      filters,
+      pagination.limit,
+      pagination.skip,
+    );
+  }
+
+  async getFlaggedUsers() {
+    return this.moderationService.listFlaggedUsers();
+  }
+
+  async unflagUser(userId: string) {
+    return this.moderationService.unflagUser(userId);
   }
 
   // ==================== Statistics ====================
@@ -217,10 +663,42 @@ export class AdminService {
     };
   }
 
+  async getUsageStats(filters: UsageFilters) {
+    return this.usageService.getUsageSummary(filters);
+  }
+
+  async getDailyUsageStats(filters: UsageFilters) {
+    return this.usageService.getDailyUsage(filters);
+  }
+
+  // ==================== Quotas ====================
+
+  async getQuotaPlans() {
+    return this.quotaService.getPlans();
+  }
+
+  async upsertQuotaPlan(name: string, dto: UpsertQuotaPlanDto) {
+    return this.quotaService.upsertPlan(name, dto);
+  }
+
+  async getUserQuota(userId: string) {
+    return this.quotaService.getUserQuota(userId);
+  }
+
+  async assignQuotaPlan(userId: string, plan: string) {
+    return this.quotaService.assignPlan(userId, plan);
+  }
+
+  async resetUserQuota(userId: string) {
+    return this.quotaService.resetCounters(userId);
+  }
+
   async getSystemHealth() {
     const mongoConnected =
       (this.conversationModel.db.readyState as number) === 1;
-    const geminiInitialized = this.geminiService.isInitialized();
+    const defaultProvider = this.llmProviderRegistry.getDefault();
+    const llmInitialized = defaultProvider.isInitialized();
+    const llmAvailable = defaultProvider.isAvailable();
 
     const totalConversations = await this.conversationModel
       .countDocuments()
@@ -229,12 +707,28 @@ export class AdminService {
     const totalTemplates = await this.promptTemplateModel
       .countDocuments()
       .exec();
+    const jobs = await this.jobsService.getStats();
 
     return {
-      status: mongoConnected && geminiInitialized ? 'healthy' : 'degraded',
+      status:
+        mongoConnected && llmInitialized && llmAvailable
+          ? 'healthy'
+          : 'degraded',
       services: {
         mongodb: mongoConnected ? 'connected' : 'disconnected',
-        gemini: geminiInitialized ? 'initialized' : 'not initialized',
+        llm: {
+          defaultProvider: defaultProvider.name,
+          providers: this.llmProviderRegistry.list().map((provider) => ({
+            name: provider.name,
+            model: provider.getModel(),
+            status: provider.isInitialized()
+              ? 'initialized'
+              : 'not initialized',
+          })),
+          fallbackChain: this.llmProviderRegistry.getFallbackChain(),
+          circuitBreakers: this.llmProviderRegistry.getCircuitBreakers(),
+        },
+        jobs,
       },
       database: {
         conversations: totalConversations,
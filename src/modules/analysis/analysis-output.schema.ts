@@ -0,0 +1,56 @@
+import { LlmJsonSchema } from '../../common/interfaces/llm.interface';
+import {
+  GRAMMAR_ERROR_CATEGORIES,
+  GRAMMAR_ERROR_SEVERITIES,
+  VOCABULARY_LEVELS,
+} from './dto/message-analysis.dto';
+
+/**
+ * Structured output schema sent to the provider, mirrors MessageAnalysisDto
+ */
+export const MESSAGE_ANALYSIS_SCHEMA: LlmJsonSchema = {
+  type: 'object',
+  properties: {
+    grammarErrors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          error: {
+            type: 'string',
+            description: 'What is wrong, for the learner',
+          },
+          original: {
+            type: 'string',
+            description: 'The erroneous words copied exactly from the text',
+          },
+          suggestion: {
+            type: 'string',
+            description: 'Replacement for the original words',
+          },
+          start: {
+            type: 'integer',
+            description: 'Zero-based character offset where original begins',
+          },
+          category: { type: 'string', enum: GRAMMAR_ERROR_CATEGORIES },
+          severity: { type: 'string', enum: GRAMMAR_ERROR_SEVERITIES },
+        },
+        required: [
+          'error',
+          'original',
+          'suggestion',
+          'start',
+          'category',
+          'severity',
+        ],
+      },
+    },
+    vocabularyLevel: { type: 'string', enum: VOCABULARY_LEVELS },
+    suggestions: { type: 'array', items: { type: 'string' } },
+    score: {
+      type: 'integer',
+      description: 'Overall correctness from 0 to 100',
+    },
+  },
+  required: ['grammarErrors', 'vocabularyLevel', 'suggestions', 'score'],
+};
@@ -0,0 +1,317 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import { LlmProvider, LlmUsage } from '../../common/interfaces/llm.interface';
+import {
+  AnalysisStatus,
+  MessageAnalysis,
+} from '../../common/interfaces/conversation.interface';
+import {
+  GRAMMAR_ERROR_CATEGORIES,
+  GRAMMAR_ERROR_SEVERITIES,
+  MessageAnalysisDto,
+  VOCABULARY_LEVELS,
+} from './dto/message-analysis.dto';
+import { MESSAGE_ANALYSIS_SCHEMA } from './analysis-output.schema';
+import { applyCorrections, locateGrammarErrors } from './grammar-corrections';
+import { diffWords } from '../../common/utils/text-diff';
+
+export interface AnalysisOutcome {
+  analysis: MessageAnalysis | null;
+  status: AnalysisStatus;
+  provider: string;
+  model: string;
+  usage: LlmUsage; // Summed over every attempt
+  attempts: number;
+  errors: string[]; // Why the last output was rejected
+}
+
+interface ParsedAnalysis {
+  analysis?: MessageAnalysis;
+  repaired: boolean;
+  errors: string[];
+}
+
+const ANALYSIS_INSTRUCTION =
+  'You are an English language teacher. You analyze learner messages for grammar errors and vocabulary level and reply only with JSON matching the requested schema.';
+
+@Injectable()
+export class AnalysisService {
+  private readonly logger = new Logger(AnalysisService.name);
+  private readonly maxRepairAttempts: number;
+
+  constructor(private configService: ConfigService) {
+    this.maxRepairAttempts = Number(
+      this.configService.get('ANALYSIS_MAX_REPAIR_ATTEMPTS', 1),
+    );
+  }
+
+  /**
+   * Analyze a learner message with structured output. Invalid output is
+   * repaired locally when possible, otherwise the model is asked again with
+   * the validation errors; the outcome status tells which path succeeded.
+   */
+  async analyzeText(
+    provider: LlmProvider,
+    text: string,
+    targetLevel: string = 'intermediate',
+  ): Promise<AnalysisOutcome> {
+    const outcome: AnalysisOutcome = {
+      analysis: null,
+      status: 'failed',
+      provider: provider.name,
+      model: provider.getModel(),
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      attempts: 0,
+      errors: [],
+    };
+
+    let prompt = this.buildPrompt(text, targetLevel);
+
+    while (outcome.attempts <= this.maxRepairAttempts) {
+      outcome.attempts++;
+
+      let raw: string;
+      try {
+        const response = await provider.generateStructured(
+          prompt,
+          MESSAGE_ANALYSIS_SCHEMA,
+          { systemInstructions: [ANALYSIS_INSTRUCTION] },
+        );
+        raw = response.text;
+        outcome.provider = response.provider || provider.name;
+        outcome.model = response.model;
+        outcome.usage = this.addUsage(outcome.usage, response.usage);
+      } catch (error) {
+        this.logger.error('Error analyzing text', error);
+        outcome.errors = [error.message];
+        return outcome;
+      }
+
+      const parsed = this.parse(raw, text, targetLevel);
+      if (parsed.analysis) {
+        outcome.analysis = parsed.analysis;
+        outcome.status =
+          parsed.repaired || outcome.attempts > 1 ? 'repaired' : 'ok';
+        outcome.errors = parsed.errors;
+        return outcome;
+      }
+
+      outcome.errors = parsed.errors;
+      this.logger.warn(
+        `Invalid analysis output (attempt ${outcome.attempts}): ${parsed.errors.join('; ')}`,
+      );
+      prompt = this.buildRepairPrompt(text, targetLevel, raw, parsed.errors);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Parse and validate a raw reply, applying local repairs when needed
+   */
+  private parse(
+    raw: string,
+    text: string,
+    targetLevel: string,
+  ): ParsedAnalysis {
+    const json = this.parseJson(raw);
+    if (json === undefined) {
+      return { repaired: false, errors: ['Output is not valid JSON'] };
+    }
+
+    let value = json.value;
+    let repaired = json.repaired;
+    const errors = this.validate(value);
+
+    if (errors.length > 0) {
+      value = this.normalize(value, targetLevel);
+      if (!value || this.validate(value).length > 0) {
+        return { repaired: false, errors };
+      }
+      repaired = true;
+    }
+
+    const { analysis, unlocated } = this.buildAnalysis(value, text);
+    if (unlocated > 0) {
+      errors.push(
+        `${unlocated} grammar error(s) quote words that are not in the text`,
+      );
+      repaired = true;
+    }
+
+    return { analysis, repaired, errors };
+  }
+
+  /**
+   * JSON.parse, falling back to the outermost object when the model wrapped
+   * it in code fences or prose
+   */
+  private parseJson(
+    raw: string,
+  ): { value: any; repaired: boolean } | undefined {
+    try {
+      return { value: JSON.parse(raw), repaired: false };
+    } catch {
+      const start = raw.indexOf('{');
+      const end = raw.lastIndexOf('}');
+      if (start === -1 || end <= start) {
+        return undefined;
+      }
+      try {
+        return { value: JSON.parse(raw.slice(start, end + 1)), repaired: true };
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  private validate(value: unknown): string[] {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return ['Output is not a JSON object'];
+    }
+
+    const dto = plainToInstance(MessageAnalysisDto, value);
+    return this.flattenErrors(validateSync(dto));
+  }
+
+  /**
+   * Coerce near-miss output: defaults for missing lists, lower-cased levels,
+   * numeric strings and out-of-range scores. A missing score cannot be
+   * invented, so such output stays invalid.
+   */
+  private normalize(value: any, targetLevel: string): any {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+
+    const score = Number(value.score);
+    const level = String(value.vocabularyLevel || '').toLowerCase();
+
+    return {
+      grammarErrors: (Array.isArray(value.grammarErrors)
+        ? value.grammarErrors
+        : []
+      )
+        .filter(
+          (item: any) =>
+            item &&
+            typeof item.error === 'string' &&
+            item.error.trim() &&
+            typeof item.original === 'string' &&
+            item.original.length > 0,
+        )
+        .map((item: any) => {
+          const start = Math.round(Number(item.start));
+          const category = String(item.category || '').toLowerCase();
+          const severity = String(item.severity || '').toLowerCase();
+
+          return {
+            error: item.error,
+            original: item.original,
+            suggestion:
+              typeof item.suggestion === 'string' ? item.suggestion : '',
+            start: start >= 0 ? start : undefined,
+            category: GRAMMAR_ERROR_CATEGORIES.includes(category as any)
+              ? category
+              : 'other',
+            severity: GRAMMAR_ERROR_SEVERITIES.includes(severity as any)
+              ? severity
+              : 'moderate',
+          };
+        }),
+      vocabularyLevel: VOCABULARY_LEVELS.includes(level) ? level : targetLevel,
+      suggestions: (Array.isArray(value.suggestions)
+        ? value.suggestions
+        : []
+      ).filter((item: unknown) => typeof item === 'string'),
+      score:
+        value.score === undefined || value.score === null || isNaN(score)
+          ? undefined
+          : Math.min(100, Math.max(0, Math.round(score))),
+    };
+  }
+
+  /**
+   * Keep only schema fields, pin errors to verified spans of the text and
+   * compute the corrected text and its word diff
+   */
+  private buildAnalysis(
+    value: MessageAnalysisDto,
+    text: string,
+  ): { analysis: MessageAnalysis; unlocated: number } {
+    const { located, unlocated } = locateGrammarErrors(
+      text,
+      value.grammarErrors.map((item) => ({
+        error: item.error,
+        original: item.original,
+        suggestion: item.suggestion,
+        start: item.start,
+        category: item.category,
+        severity: item.severity,
+      })),
+    );
+    const correctedText = applyCorrections(text, located);
+
+    return {
+      analysis: {
+        grammarErrors: located,
+        correctedText,
+        diff: diffWords(text, correctedText),
+        vocabularyLevel: value.vocabularyLevel,
+        suggestions: value.suggestions,
+        score: value.score,
+      },
+      unlocated: unlocated.length,
+    };
+  }
+
+  private flattenErrors(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap((error) => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      return [
+        ...Object.values(error.constraints || {}).map(
+          (message) => `${property}: ${message}`,
+        ),
+        ...this.flattenErrors(error.children || [], property),
+      ];
+    });
+  }
+
+  private buildPrompt(text: string, targetLevel: string): string {
+    return `Analyze the following learner text for grammar errors and provide suggestions.
+Target level: ${targetLevel}
+
+Text: "${text}"
+
+For each grammar error copy the wrong words exactly as written into "original", give the replacement words in "suggestion" and the zero-based character offset of "original" in "start". Keep spans as short as possible and never overlapping.
+Return an empty grammarErrors list when the text has no errors. Score overall correctness from 0 to 100.`;
+  }
+
+  private buildRepairPrompt(
+    text: string,
+    targetLevel: string,
+    previousOutput: string,
+    errors: string[],
+  ): string {
+    return `${this.buildPrompt(text, targetLevel)}
+
+Your previous reply was rejected:
+${previousOutput}
+
+Problems:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with corrected JSON only.`;
+  }
+
+  private addUsage(total: LlmUsage, usage: LlmUsage): LlmUsage {
+    return {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      estimated: total.estimated || usage.estimated,
+    };
+  }
+}
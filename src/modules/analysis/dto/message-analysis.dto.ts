@@ -0,0 +1,85 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import type {
+  GrammarErrorCategory,
+  GrammarErrorSeverity,
+} from '../../../common/interfaces/conversation.interface';
+
+export const VOCABULARY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+export const GRAMMAR_ERROR_CATEGORIES: GrammarErrorCategory[] = [
+  'tense',
+  'article',
+  'preposition',
+  'word_order',
+  'spelling',
+  'agreement',
+  'plural',
+  'pronoun',
+  'word_choice',
+  'punctuation',
+  'capitalization',
+  'other',
+];
+
+export const GRAMMAR_ERROR_SEVERITIES: GrammarErrorSeverity[] = [
+  'minor',
+  'moderate',
+  'major',
+];
+
+export class GrammarErrorDto {
+  @IsString()
+  @IsNotEmpty()
+  error: string;
+
+  @IsString()
+  @IsNotEmpty()
+  original: string;
+
+  @IsString()
+  suggestion: string;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  start?: number; // Hint only, the span is located in the text server-side
+
+  @IsIn(GRAMMAR_ERROR_CATEGORIES)
+  category: GrammarErrorCategory;
+
+  @IsIn(GRAMMAR_ERROR_SEVERITIES)
+  severity: GrammarErrorSeverity;
+}
+
+/**
+ * Shape a model reply must have to be stored as Message.analysis
+ */
+export class MessageAnalysisDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GrammarErrorDto)
+  grammarErrors: GrammarErrorDto[];
+
+  @IsIn(VOCABULARY_LEVELS)
+  vocabularyLevel: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  suggestions: string[];
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  score: number;
+}
@@ -0,0 +1,105 @@
+import { GrammarError } from '../../common/interfaces/conversation.interface';
+
+export type GrammarErrorCandidate = Omit<GrammarError, 'start' | 'end'> & {
+  start?: number;
+};
+
+/**
+ * Pin each reported error to the exact span of the original text. The model
+ * offset is only a hint: the quoted words are searched in the text and the
+ * occurrence closest to the hint that does not overlap an earlier error wins.
+ * Errors whose words are not in the text are returned as unlocated.
+ */
+export function locateGrammarErrors(
+  text: string,
+  candidates: GrammarErrorCandidate[],
+): { located: GrammarError[]; unlocated: GrammarErrorCandidate[] } {
+  const located: GrammarError[] = [];
+  const unlocated: GrammarErrorCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const span = findSpan(text, candidate, located);
+
+    if (!span) {
+      unlocated.push(candidate);
+      continue;
+    }
+
+    const { start, end } = span;
+    located.push({
+      ...candidate,
+      original: text.slice(start, end),
+      start,
+      end,
+    });
+  }
+
+  return {
+    located: located.sort((a, b) => a.start - b.start),
+    unlocated,
+  };
+}
+
+/**
+ * Apply every suggestion to the text. Spans must not overlap.
+ */
+export function applyCorrections(text: string, errors: GrammarError[]): string {
+  return [...errors]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (corrected, error) =>
+        corrected.slice(0, error.start) +
+        error.suggestion +
+        corrected.slice(error.end),
+      text,
+    );
+}
+
+function findSpan(
+  text: string,
+  candidate: GrammarErrorCandidate,
+  taken: GrammarError[],
+): { start: number; end: number } | undefined {
+  const isFree = (start: number, end: number) =>
+    taken.every((error) => end <= error.start || start >= error.end);
+
+  const hint = candidate.start;
+  const hintEnd = (hint ?? 0) + candidate.original.length;
+  if (
+    hint !== undefined &&
+    text.slice(hint, hintEnd) === candidate.original &&
+    isFree(hint, hintEnd)
+  ) {
+    return { start: hint, end: hintEnd };
+  }
+
+  // Exact matches first, then case-insensitive ones. Matching runs on the
+  // original text, so offsets stay valid where lowercasing changes lengths.
+  const source = candidate.original.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  for (const flags of ['gu', 'giu']) {
+    const pattern = new RegExp(source, flags);
+    const spans: Array<{ start: number; end: number }> = [];
+    for (
+      let match = pattern.exec(text);
+      match && match[0].length > 0;
+      match = pattern.exec(text)
+    ) {
+      const span = { start: match.index, end: match.index + match[0].length };
+      if (isFree(span.start, span.end)) {
+        spans.push(span);
+      }
+      // Overlapping occurrences are candidates too
+      pattern.lastIndex = match.index + 1;
+    }
+
+    if (spans.length > 0) {
+      return spans.reduce((best, span) =>
+        Math.abs(span.start - (hint ?? 0)) < Math.abs(best.start - (hint ?? 0))
+          ? span
+          : best,
+      );
+    }
+  }
+
+  return undefined;
+}
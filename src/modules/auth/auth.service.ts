@@ -11,6 +11,10 @@ import * as bcrypt from 'bcrypt';
 import { User, UserDocument } from './schemas/user.schema';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import {
+  AuthenticatedUser,
+  JwtPayload,
+} from '../../common/interfaces/auth.interface';
 
 @Injectable()
 export class AuthService {
@@ -108,6 +112,29 @@ export class AuthService {
     return user;
   }
 
+  /**
+   * Verify an access token and check its user is still active.
+   * Used where the passport JWT strategy can't run (WebSocket handshakes).
+   */
+  async verifyAccessToken(token: string): Promise<AuthenticatedUser> {
+    let payload: JwtPayload;
+    try {
+      payload = this.jwtService.verify<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    await this.validateUser(payload.sub);
+    return this.toAuthenticatedUser(payload);
+  }
+
+  /**
+   * Map a verified JWT payload to the user attached to requests and sockets
+   */
+  toAuthenticatedUser(payload: JwtPayload): AuthenticatedUser {
+    return { userId: payload.sub, email: payload.email, role: payload.role };
+  }
+
   /**
    * Refresh access token
    */
@@ -25,6 +25,18 @@ export class User {
 
   @Prop()
   refreshToken?: string; // Hashed refresh token
+
+  @Prop()
+  plan?: string; // Quota plan name, falls back to QUOTA_DEFAULT_PLAN
+
+  @Prop()
+  quotaResetAt?: Date; // Usage before this date does not count toward quotas
+
+  @Prop()
+  flaggedAt?: Date; // Set by injection moderation, cleared by an admin after review
+
+  @Prop()
+  flagReason?: string;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
@@ -6,8 +6,17 @@ import {
   Body,
   Param,
   Query,
+  Res,
+  Headers,
+  HttpStatus,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  ForbiddenException,
+  StreamableFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -15,23 +24,50 @@ import {
   ApiBearerAuth,
   ApiQuery,
   ApiParam,
+  ApiProduces,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { ConversationService } from './conversation.service';
 import { CreateConversationDto } from './dto/create-conversation.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+import { RateMessageDto } from './dto/rate-message.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  ConversationAccess,
+  CurrentConversation,
+} from './decorators/conversation-access.decorator';
+import type { ConversationDocument } from './schemas/conversation.schema';
+import { MessageAnalysisProcessor } from './jobs/message-analysis.processor';
+import { AudioInput } from '../../common/interfaces/speech.interface';
+import type { AuthenticatedUser } from '../../common/interfaces/auth.interface';
+
+/**
+ * The parts of a multer file the audio endpoint reads
+ */
+interface UploadedAudio {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
 
 @ApiTags('conversations')
 @ApiBearerAuth('JWT-auth')
 @Controller('conversations')
 @UseGuards(JwtAuthGuard)
 export class ConversationController {
-  constructor(private readonly conversationService: ConversationService) {}
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly messageAnalysisProcessor: MessageAnalysisProcessor,
+  ) {}
 
   @Post()
   @ApiOperation({
     summary: 'Create new conversation',
-    description: 'Create a new conversation with specified type and metadata',
+    description:
+      'Create a new conversation with specified type and metadata. Only admins can pick the LLM provider; other conversations use the one configured for the environment',
   })
   @ApiResponse({
     status: 201,
@@ -39,13 +75,24 @@ export class ConversationController {
   })
   @ApiResponse({ status: 400, description: 'Validation error' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires admin role to choose the provider',
+  })
   async createConversation(
-    @CurrentUser() user: any,
+    @CurrentUser() user: AuthenticatedUser,
     @Body() createConversationDto: CreateConversationDto,
   ) {
+    // Providers differ in cost, and the mock answers with canned replies
+    if (createConversationDto.provider && user.role !== 'admin') {
+      throw new ForbiddenException(
+        'Forbidden - Only admins can choose the LLM provider',
+      );
+    }
+
     const dto = {
       ...createConversationDto,
-      userId: user._id.toString(),
+      userId: user.userId,
     };
     return this.conversationService.createConversation(dto);
   }
@@ -74,11 +121,10 @@ export class ConversationController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getUserConversations(
-    @CurrentUser() user: any,
+    @CurrentUser('userId') userId: string,
     @Query('isActive') isActive?: boolean,
     @Query('conversationType') conversationType?: string,
   ) {
-    const userId = user._id.toString();
     let conversations =
       await this.conversationService.getUserConversations(userId);
 
@@ -106,8 +152,8 @@ export class ConversationController {
   @ApiResponse({ status: 200, description: 'Active conversation retrieved' })
   @ApiResponse({ status: 404, description: 'No active conversation found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getActiveConversation(@CurrentUser() user: any) {
-    return this.conversationService.getActiveConversation(user._id.toString());
+  async getActiveConversation(@CurrentUser('userId') userId: string) {
+    return this.conversationService.getActiveConversation(userId);
   }
 
   @Get(':id')
@@ -126,14 +172,11 @@ export class ConversationController {
     status: 403,
     description: 'Forbidden - Not your conversation',
   })
-  async getConversation(@CurrentUser() user: any, @Param('id') id: string) {
-    const conversation = await this.conversationService.getConversation(id);
-
-    // Verify ownership
-    if (conversation.userId.toString() !== user._id.toString()) {
-      throw new Error('Forbidden - Not your conversation');
-    }
-
+  @ConversationAccess('read')
+  async getConversation(
+    @Param('id') id: string,
+    @CurrentConversation() conversation: ConversationDocument,
+  ) {
     const messages = await this.conversationService.getConversationMessages(id);
 
     return {
@@ -155,18 +198,300 @@ export class ConversationController {
     status: 403,
     description: 'Forbidden - Not your conversation',
   })
-  async getConversationMessages(
-    @CurrentUser() user: any,
+  @ConversationAccess('read')
+  async getConversationMessages(@Param('id') id: string) {
+    return this.conversationService.getConversationMessages(id);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({
+    summary: 'Send message',
+    description:
+      'Send a message to the AI tutor. Returns the user and assistant messages as JSON, or streams the reply as Server-Sent Events when the request has "Accept: text/event-stream" (events: messageReceived, messageChunk, messageComplete, analysis, error). The JSON response returns the user message with analysisStatus "pending"; the SSE stream stays open until the analysis is ready or a timeout expires. With audioReply the assistant message gets an audioUrl to the synthesized reply. Replies are checked by the response guard before they are stored; the last words of the reply are held back until it has been checked, and when the guard changed the reply (metadata.guard) the message in messageComplete replaces the streamed text',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiResponse({
+    status: 201,
+    description:
+      'Message processed, returns userMessage and assistantMessage. A userMessage with metadata.moderation was sanitized; its warning is meant for the learner',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or message blocked by injection moderation',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your conversation',
+  })
+  @ApiResponse({ status: 404, description: 'Conversation not found' })
+  @ApiResponse({ status: 429, description: 'Quota exceeded' })
+  @ConversationAccess('write')
+  async sendMessage(
+    @CurrentUser('userId') userId: string,
     @Param('id') id: string,
+    @Body() sendMessageDto: SendMessageDto,
+    @Headers('accept') accept: string | undefined,
+    @Res() res: Response,
   ) {
-    const conversation = await this.conversationService.getConversation(id);
+    const dto = { ...sendMessageDto, conversationId: id };
+    await this.respond(userId, dto, accept, res);
+  }
 
-    // Verify ownership
-    if (conversation.userId.toString() !== user._id.toString()) {
-      throw new Error('Forbidden - Not your conversation');
+  @Post(':id/messages/audio')
+  @ApiOperation({
+    summary: 'Send audio message',
+    description:
+      'Upload a recorded message. The audio is stored, transcribed and the transcript is processed like a text message; the user message keeps audioKey and the transcription confidence and duration. Pronunciation is scored with the analysis and arrives as "pronunciation" in the analysis event. Responds as JSON or Server-Sent Events like the text endpoint',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['audio'],
+      properties: {
+        audio: {
+          type: 'string',
+          format: 'binary',
+          description: 'Audio file (audio/* MIME type)',
+        },
+        audioReply: {
+          type: 'boolean',
+          description:
+            'Synthesize the tutor reply as audio (defaults to TTS_AUTO_REPLY)',
+        },
+        expectedText: {
+          type: 'string',
+          description:
+            'Drill sentence to score the pronunciation against (defaults to the transcript)',
+        },
+      },
+    },
+  })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiResponse({
+    status: 201,
+    description: 'Message processed, returns userMessage and assistantMessage',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Missing, empty or unsupported audio, or transcript blocked by injection moderation',
+  })
+  @ApiResponse({ status: 413, description: 'Audio exceeds AUDIO_MAX_BYTES' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your conversation',
+  })
+  @ApiResponse({ status: 404, description: 'Conversation not found' })
+  @ApiResponse({ status: 429, description: 'Quota exceeded' })
+  @ConversationAccess('write')
+  @UseInterceptors(FileInterceptor('audio'))
+  async sendAudioMessage(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @UploadedFile() file: UploadedAudio | undefined,
+    @Body('audioReply') audioReply: string | undefined,
+    @Body('expectedText') expectedText: string | undefined,
+    @Headers('accept') accept: string | undefined,
+    @Res() res: Response,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Missing audio file field "audio"');
     }
 
-    return this.conversationService.getConversationMessages(id);
+    const dto: SendMessageDto = {
+      content: '',
+      type: 'audio',
+      conversationId: id,
+      // Multipart fields arrive as strings
+      audioReply: audioReply === undefined ? undefined : audioReply === 'true',
+      expectedText,
+    };
+    await this.respond(userId, dto, accept, res, {
+      data: file.buffer,
+      mimeType: file.mimetype,
+    });
+  }
+
+  @Get(':id/messages/:messageId/audio')
+  @ApiOperation({
+    summary: 'Get message audio',
+    description:
+      'Stream the audio of a message: the recording of an audio message or the synthesized tutor reply. Messages with audio expose this route as audioUrl',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiProduces('audio/*')
+  @ApiResponse({ status: 200, description: 'Audio file' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your conversation',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation or message not found, or message has no audio',
+  })
+  @ConversationAccess('read')
+  async getMessageAudio(
+    @Param('id') id: string,
+    @Param('messageId') messageId: string,
+  ) {
+    const audio = await this.conversationService.getMessageAudio(id, messageId);
+
+    return new StreamableFile(audio.data, {
+      type: audio.contentType,
+      length: audio.data.length,
+    });
+  }
+
+  @Post(':id/messages/:messageId/rating')
+  @ApiOperation({
+    summary: 'Rate tutor reply',
+    description:
+      'Rate an assistant message from 1 to 5. Rating again replaces the earlier rating. Ratings feed the prompt experiment metrics',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiResponse({ status: 201, description: 'Rating stored' })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or not an assistant message',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your conversation',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation or message not found',
+  })
+  @ConversationAccess('write')
+  async rateMessage(
+    @Param('id') id: string,
+    @Param('messageId') messageId: string,
+    @Body() rateMessageDto: RateMessageDto,
+  ) {
+    return this.conversationService.rateMessage(id, messageId, rateMessageDto);
+  }
+
+  /**
+   * Reply as JSON, or as Server-Sent Events when the client accepts them
+   */
+  private async respond(
+    userId: string,
+    dto: SendMessageDto,
+    accept: string | undefined,
+    res: Response,
+    audio?: AudioInput,
+  ) {
+    if (!accept?.includes('text/event-stream')) {
+      const result = await this.conversationService.processMessage(
+        userId,
+        dto,
+        audio,
+      );
+      res.status(HttpStatus.CREATED).json(result);
+      return;
+    }
+
+    await this.streamMessage(userId, dto, res, audio);
+  }
+
+  /**
+   * Stream a reply as Server-Sent Events. Once headers are sent, errors are
+   * reported as an "error" event instead of an HTTP status.
+   */
+  private async streamMessage(
+    userId: string,
+    dto: SendMessageDto,
+    res: Response,
+    audio?: AudioInput,
+  ) {
+    const controller = new AbortController();
+    let messageId: string | undefined;
+
+    // Stop generating when the client goes away before the stream ends
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    try {
+      const result = await this.conversationService.streamMessage(
+        userId,
+        dto,
+        {
+          signal: controller.signal,
+          onStart: (userMessage, assistantMessageId) => {
+            messageId = assistantMessageId;
+            this.writeEvent(res, 'messageReceived', {
+              message: userMessage,
+              messageId,
+            });
+          },
+          onChunk: (chunk, sequence) => {
+            this.writeEvent(res, 'messageChunk', {
+              messageId,
+              sequence,
+              chunk,
+            });
+          },
+        },
+        audio,
+      );
+
+      this.writeEvent(res, 'messageComplete', {
+        messageId,
+        message: result.assistantMessage,
+        cancelled: result.cancelled,
+      });
+
+      // Analysis runs as a background job, keep the stream open for it
+      const userMessageId = (result.userMessage._id as any).toString();
+      const analysis = controller.signal.aborted
+        ? null
+        : await this.messageAnalysisProcessor.waitForAnalysis(userMessageId);
+
+      this.writeEvent(
+        res,
+        'analysis',
+        analysis ?? {
+          messageId: userMessageId,
+          conversationId: result.userMessage.conversationId,
+          analysis: null,
+          analysisStatus: result.userMessage.analysisStatus,
+          pronunciation: result.userMessage.pronunciation ?? null,
+        },
+      );
+    } catch (error) {
+      this.writeEvent(res, 'error', {
+        message: 'Failed to process message',
+        error: error.message,
+        statusCode: error.status ?? HttpStatus.INTERNAL_SERVER_ERROR,
+      });
+    } finally {
+      res.end();
+    }
+  }
+
+  private writeEvent(res: Response, event: string, data: unknown) {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
   }
 
   @Delete(':id')
@@ -185,14 +510,8 @@ export class ConversationController {
     status: 403,
     description: 'Forbidden - Not your conversation',
   })
-  async deleteConversation(@CurrentUser() user: any, @Param('id') id: string) {
-    const conversation = await this.conversationService.getConversation(id);
-
-    // Verify ownership
-    if (conversation.userId.toString() !== user._id.toString()) {
-      throw new Error('Forbidden - Not your conversation');
-    }
-
+  @ConversationAccess('manage')
+  async deleteConversation(@Param('id') id: string) {
     return this.conversationService.deleteConversation(id);
   }
 
@@ -209,14 +528,8 @@ export class ConversationController {
     status: 403,
     description: 'Forbidden - Not your conversation',
   })
-  async endConversation(@CurrentUser() user: any, @Param('id') id: string) {
-    const conversation = await this.conversationService.getConversation(id);
-
-    // Verify ownership
-    if (conversation.userId.toString() !== user._id.toString()) {
-      throw new Error('Forbidden - Not your conversation');
-    }
-
+  @ConversationAccess('manage')
+  async endConversation(@Param('id') id: string) {
     return this.conversationService.endConversation(id);
   }
 }
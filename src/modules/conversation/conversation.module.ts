@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
 import { ConversationService } from './conversation.service';
 import { ConversationGateway } from './conversation/conversation.gateway';
 import { ConversationController } from './conversation.controller';
@@ -9,6 +10,21 @@ import {
 } from './schemas/conversation.schema';
 import { Message, MessageSchema } from './schemas/message.schema';
 import { PromptModule } from '../prompt/prompt.module';
+import { UsageModule } from '../usage/usage.module';
+import { QuotaModule } from '../quota/quota.module';
+import { AuthModule } from '../auth/auth.module';
+import { AnalysisModule } from '../analysis/analysis.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StorageModule } from '../storage/storage.module';
+import { SpeechModule } from '../speech/speech.module';
+import { SpeechService } from '../speech/speech.service';
+import { ExperimentModule } from '../experiment/experiment.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { MessageAnalysisProcessor } from './jobs/message-analysis.processor';
+import { ConversationSummaryProcessor } from './jobs/conversation-summary.processor';
+import { ContextWindowService } from './context/context-window.service';
+import { ConversationAccessPolicy } from './policies/conversation-access.policy';
+import { ConversationAccessGuard } from './guards/conversation-access.guard';
 
 @Module({
   imports: [
@@ -17,9 +33,38 @@ import { PromptModule } from '../prompt/prompt.module';
       { name: Message.name, schema: MessageSchema },
     ]),
     PromptModule,
+    UsageModule,
+    QuotaModule,
+    AuthModule,
+    AnalysisModule,
+    JobsModule,
+    StorageModule,
+    SpeechModule,
+    // Oversized audio is rejected while it streams in, not after buffering
+    MulterModule.registerAsync({
+      imports: [SpeechModule],
+      useFactory: (speechService: SpeechService) => ({
+        limits: { fileSize: speechService.getMaxAudioBytes() },
+      }),
+      inject: [SpeechService],
+    }),
+    ExperimentModule,
+    ModerationModule,
   ],
   controllers: [ConversationController],
-  providers: [ConversationService, ConversationGateway],
-  exports: [ConversationService],
+  providers: [
+    ConversationService,
+    ConversationGateway,
+    ConversationAccessPolicy,
+    ConversationAccessGuard,
+    MessageAnalysisProcessor,
+    ConversationSummaryProcessor,
+    ContextWindowService,
+  ],
+  exports: [
+    ConversationService,
+    ConversationAccessPolicy,
+    ContextWindowService,
+  ],
 })
 export class ConversationModule {}
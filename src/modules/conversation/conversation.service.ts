@@ -1,4 +1,10 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import {
@@ -6,29 +12,99 @@ import {
   ConversationDocument,
 } from './schemas/conversation.schema';
 import { Message, MessageDocument } from './schemas/message.schema';
-import { GeminiService } from '../gemini/gemini.service';
+import { LlmProviderRegistry } from '../llm/llm-provider.registry';
 import { PromptService } from '../prompt/prompt.service';
+import { UsageService } from '../usage/usage.service';
+import { QuotaService } from '../quota/quota.service';
+import { JobsService } from '../jobs/jobs.service';
+import { StorageService } from '../storage/storage.service';
+import { SpeechService } from '../speech/speech.service';
+import { ExperimentService } from '../experiment/experiment.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { MessageBlockedException } from '../moderation/message-blocked.exception';
+import { ResponseGuardService } from '../moderation/response-guard.service';
+import {
+  MESSAGE_ANALYSIS_JOB,
+  MessageAnalysisJob,
+} from './jobs/message-analysis.job';
+import {
+  CONVERSATION_SUMMARY_JOB,
+  ConversationSummaryJob,
+} from './jobs/conversation-summary.job';
+import { ContextWindowService } from './context/context-window.service';
+import {
+  ConversationAccessPolicy,
+  ConversationAction,
+  ConversationActor,
+} from './policies/conversation-access.policy';
 import { CreateConversationDto } from './dto/create-conversation.dto';
 import { CreateMessageDto } from './dto/create-message.dto';
 import { SendMessageDto } from './dto/send-message.dto';
-import { GeminiMessage } from '../../common/interfaces/gemini.interface';
+import { RateMessageDto } from './dto/rate-message.dto';
+import {
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmResponse,
+  LlmStream,
+} from '../../common/interfaces/llm.interface';
 import {
   ConversationContext,
   ConversationMetadata,
 } from '../../common/interfaces/conversation.interface';
+import { AudioInput } from '../../common/interfaces/speech.interface';
+import { PromptTemplateRef } from '../../common/interfaces/prompt.interface';
+import { ExperimentAssignment } from '../../common/interfaces/experiment.interface';
+import { estimateUsage } from '../../common/utils/token-estimator';
+
+export interface StreamMessageHandlers {
+  onStart?: (userMessage: MessageDocument, assistantMessageId: string) => void;
+  onChunk: (chunk: string, sequence: number) => void;
+  signal?: AbortSignal;
+}
+
+interface PreparedTurn {
+  userId: string;
+  conversation: ConversationDocument;
+  conversationId: string;
+  userMessage: MessageDocument;
+  llmProvider: LlmProvider;
+  llmMessages: LlmMessage[];
+  generateOptions: LlmGenerateOptions;
+  systemPrompt: string; // Layer 1, checked for leaks in the reply
+  promptTemplates: PromptTemplateRef[];
+  experiments: ExperimentAssignment[];
+  audioReply: boolean;
+  summarize: boolean; // Enough turns left the context window
+}
 
 @Injectable()
 export class ConversationService {
   private readonly logger = new Logger(ConversationService.name);
+  private readonly ttsAutoReply: boolean;
 
   constructor(
     @InjectModel(Conversation.name)
     private conversationModel: Model<ConversationDocument>,
     @InjectModel(Message.name)
     private messageModel: Model<MessageDocument>,
-    private geminiService: GeminiService,
+    private llmProviderRegistry: LlmProviderRegistry,
     private promptService: PromptService,
-  ) {}
+    private usageService: UsageService,
+    private quotaService: QuotaService,
+    private accessPolicy: ConversationAccessPolicy,
+    private jobsService: JobsService,
+    private storageService: StorageService,
+    private speechService: SpeechService,
+    private experimentService: ExperimentService,
+    private contextWindowService: ContextWindowService,
+    private moderationService: ModerationService,
+    private responseGuardService: ResponseGuardService,
+    private configService: ConfigService,
+  ) {
+    this.ttsAutoReply =
+      this.configService.get<string>('TTS_AUTO_REPLY', 'false') === 'true';
+  }
 
   /**
    * Create a new conversation
@@ -36,9 +112,16 @@ export class ConversationService {
   async createConversation(
     dto: CreateConversationDto,
   ): Promise<ConversationDocument> {
+    if (dto.provider && !this.llmProviderRegistry.has(dto.provider)) {
+      throw new BadRequestException(
+        `Unknown LLM provider '${dto.provider}'. Available: ${this.llmProviderRegistry.getProviderNames().join(', ')}`,
+      );
+    }
+
     const conversation = new this.conversationModel({
       userId: dto.userId,
       conversationType: dto.conversationType || 'general',
+      provider: dto.provider,
       metadata: dto.metadata || {},
       isActive: true,
       messages: [],
@@ -56,6 +139,10 @@ export class ConversationService {
    * Get a conversation by ID
    */
   async getConversation(conversationId: string): Promise<ConversationDocument> {
+    if (!Types.ObjectId.isValid(conversationId)) {
+      throw new NotFoundException(`Conversation ${conversationId} not found`);
+    }
+
     const conversation = await this.conversationModel
       .findById(conversationId)
       .populate('messages')
@@ -68,6 +155,19 @@ export class ConversationService {
     return conversation;
   }
 
+  /**
+   * Get a conversation by ID, checking the actor may perform the action on it
+   */
+  async getConversationForUser(
+    conversationId: string,
+    actor: ConversationActor,
+    action: ConversationAction = 'read',
+  ): Promise<ConversationDocument> {
+    const conversation = await this.getConversation(conversationId);
+    this.accessPolicy.assert(actor, conversation, action);
+    return conversation;
+  }
+
   /**
    * Get all conversations for a user
    */
@@ -103,20 +203,209 @@ export class ConversationService {
   }
 
   /**
-   * Process user message and generate AI response
+   * Get the stored audio of a message in a conversation
+   */
+  async getMessageAudio(
+    conversationId: string,
+    messageId: string,
+  ): Promise<{ data: Buffer; contentType: string }> {
+    const message = Types.ObjectId.isValid(messageId)
+      ? await this.messageModel
+          .findOne({ _id: messageId, conversationId })
+          .exec()
+      : null;
+
+    if (!message?.audioKey) {
+      throw new NotFoundException(`Message ${messageId} has no audio`);
+    }
+
+    return this.storageService.get(message.audioKey);
+  }
+
+  /**
+   * Store the learner's rating of a tutor reply, replacing an earlier one
+   */
+  async rateMessage(
+    conversationId: string,
+    messageId: string,
+    dto: RateMessageDto,
+  ): Promise<MessageDocument> {
+    const message = Types.ObjectId.isValid(messageId)
+      ? await this.messageModel
+          .findOne({ _id: messageId, conversationId })
+          .exec()
+      : null;
+
+    if (!message) {
+      throw new NotFoundException(`Message ${messageId} not found`);
+    }
+    if (message.role !== 'assistant') {
+      throw new BadRequestException('Only tutor replies can be rated');
+    }
+
+    message.rating = {
+      score: dto.score,
+      comment: dto.comment,
+      ratedAt: new Date(),
+    };
+    return message.save();
+  }
+
+  /**
+   * Process user message and generate AI response. Audio messages are
+   * stored and transcribed into the message content first.
    */
   async processMessage(
     userId: string,
     dto: SendMessageDto,
+    audio?: AudioInput,
   ): Promise<{
     userMessage: MessageDocument;
     assistantMessage: MessageDocument;
   }> {
+    const turn = await this.prepareTurn(userId, dto, audio);
+
+    // 7. Generate AI response with the conversation's provider
+    const aiResponse = await turn.llmProvider.generate(
+      turn.llmMessages,
+      turn.generateOptions,
+    );
+
+    return this.completeTurn(turn, aiResponse);
+  }
+
+  /**
+   * Process user message and stream the AI response as it is generated.
+   * Aborting the signal stops the upstream stream; any partial reply is
+   * persisted and flagged as cancelled. The response guard holds back the
+   * end of the reply until it has been checked.
+   */
+  async streamMessage(
+    userId: string,
+    dto: SendMessageDto,
+    handlers: StreamMessageHandlers,
+    audio?: AudioInput,
+  ): Promise<{
+    userMessage: MessageDocument;
+    assistantMessage: MessageDocument | null;
+    cancelled: boolean;
+  }> {
+    const turn = await this.prepareTurn(userId, dto, audio);
+
+    // Reserve the assistant message id so chunks can reference it
+    const assistantMessageId = new Types.ObjectId();
+    handlers.onStart?.(turn.userMessage, assistantMessageId.toString());
+
+    // 7. Stream AI response with the conversation's provider, releasing
+    // only the text the response guard has cleared
+    const startTime = Date.now();
+    let text = '';
+    let released = 0;
+    let sequence = 0;
+    let stream: LlmStream | undefined;
+
+    try {
+      stream = await turn.llmProvider.stream(turn.llmMessages, {
+        ...turn.generateOptions,
+        signal: handlers.signal,
+      });
+
+      for await (const chunk of stream.chunks) {
+        if (handlers.signal?.aborted) {
+          break;
+        }
+        text += chunk;
+        const releasable = this.responseGuardService.releasableLength(
+          text,
+          turn.systemPrompt,
+        );
+        if (releasable > released) {
+          handlers.onChunk(text.slice(released, releasable), sequence++);
+          released = releasable;
+        }
+      }
+    } catch (error) {
+      if (!handlers.signal?.aborted) {
+        throw error;
+      }
+    }
+
+    const cancelled = !!handlers.signal?.aborted;
+
+    if (cancelled) {
+      this.logger.log(
+        `Generation ${assistantMessageId.toString()} cancelled after ${sequence} chunks`,
+      );
+
+      if (!text) {
+        return {
+          userMessage: turn.userMessage,
+          assistantMessage: null,
+          cancelled,
+        };
+      }
+    }
+
+    const aiResponse: LlmResponse =
+      !cancelled && stream
+        ? { ...(await stream.getResponse()), text }
+        : {
+            text,
+            model: turn.generateOptions.model || turn.llmProvider.getModel(),
+            processingTime: Date.now() - startTime,
+            // Providers only report usage for completed streams
+            usage: estimateUsage(
+              [
+                ...(turn.generateOptions.systemInstructions || []),
+                ...turn.llmMessages.map((msg) => msg.content),
+              ],
+              text,
+            ),
+          };
+
+    const result = await this.completeTurn(turn, aiResponse, {
+      assistantMessageId,
+      cancelled,
+    });
+
+    // Send the held back end of the reply. When the guard changed text
+    // that was already sent, the persisted message replaces it instead.
+    const { content } = result.assistantMessage;
+    if (
+      !cancelled &&
+      content.length > released &&
+      content.startsWith(text.slice(0, released))
+    ) {
+      handlers.onChunk(content.slice(released), sequence++);
+    }
+
+    return { ...result, cancelled };
+  }
+
+  /**
+   * Steps shared by every send path: quota, conversation, transcription,
+   * injection check, user message persistence and prompt compilation
+   */
+  private async prepareTurn(
+    userId: string,
+    dto: SendMessageDto,
+    audio?: AudioInput,
+  ): Promise<PreparedTurn> {
+    // 0. Enforce the user's quota before any model call
+    await this.quotaService.assertWithinQuota(userId);
+    if (audio) {
+      this.speechService.validateAudio(audio);
+    }
+
     // 1. Get or create conversation
     let conversation: ConversationDocument;
 
     if (dto.conversationId) {
-      conversation = await this.getConversation(dto.conversationId);
+      conversation = await this.getConversationForUser(
+        dto.conversationId,
+        { userId },
+        'write',
+      );
     } else {
       const activeConversation = await this.getActiveConversation(userId);
       if (activeConversation) {
@@ -130,86 +419,254 @@ export class ConversationService {
       }
     }
 
-    // 2. Check for prompt injection
-    const injectionCheck = this.promptService.checkPromptInjection(dto.content);
-
-    if (!injectionCheck.isSafe) {
-      this.logger.warn(
-        `Prompt injection detected from user ${userId}: ${injectionCheck.threats.join(', ')}`,
+    // 2. Store and transcribe audio; the transcript goes through the
+    // same pipeline as typed text
+    const conversationId = (conversation._id as any).toString();
+    const userMessageId = new Types.ObjectId();
+    let audioFields: Pick<
+      CreateMessageDto,
+      'audioKey' | 'audioUrl' | 'transcription' | 'expectedText'
+    > = {};
+    if (audio) {
+      const stored = await this.storageService.save(
+        `audio/${userId}`,
+        audio.data,
+        audio.mimeType,
       );
-      // Use sanitized input
-      dto.content = injectionCheck.sanitizedInput || dto.content;
+
+      try {
+        const transcription = await this.speechService.transcribe(audio);
+        dto.content = transcription.text;
+        dto.type = 'audio';
+        audioFields = {
+          audioKey: stored.key,
+          audioUrl: this.getMessageAudioUrl(conversationId, userMessageId),
+          transcription: {
+            provider: transcription.provider,
+            confidence: transcription.confidence,
+            duration: transcription.duration,
+            language: transcription.language,
+          },
+          expectedText: dto.expectedText,
+        };
+      } catch (error) {
+        await this.storageService.delete(stored.key).catch(() => undefined);
+        throw error;
+      }
     }
 
-    // 3. Save user message
-    const conversationId = (conversation._id as any).toString();
-    const userMessage = await this.createMessage({
+    // 3. Score the message for prompt injection: blocked messages are not
+    // stored, sanitized ones replace the content
+    const assessment = await this.moderationService.assessInput(dto.content, {
+      userId,
       conversationId,
-      role: 'user',
-      content: dto.content,
-      type: dto.type || 'text',
     });
 
-    // 4. Build conversation context
+    if (assessment.action === 'block' || assessment.action === 'flag') {
+      if (audioFields.audioKey) {
+        await this.storageService
+          .delete(audioFields.audioKey)
+          .catch(() => undefined);
+      }
+      throw new MessageBlockedException(assessment.riskScore);
+    }
+    if (assessment.sanitizedInput !== undefined) {
+      dto.content = assessment.sanitizedInput;
+    }
+
+    // 4. Save user message
+    const userMessage = await this.createMessage(
+      {
+        conversationId,
+        role: 'user',
+        content: dto.content,
+        type: dto.type || 'text',
+        ...audioFields,
+        moderation:
+          assessment.action === 'allow'
+            ? undefined
+            : {
+                riskScore: assessment.riskScore,
+                action: assessment.action,
+                threats: assessment.signals.map((signal) => signal.reason),
+                warning: assessment.warning,
+              },
+      },
+      userMessageId,
+    );
+
+    // 5. Build conversation context: recent turns within the token
+    // budget plus the summary of older turns
     const messages = await this.getConversationMessages(conversationId);
+    const contextWindow = this.contextWindowService.buildWindow(
+      conversation,
+      messages,
+    );
     const context: ConversationContext = {
       userId,
       conversationId,
-      history: messages.map((msg) => ({
+      conversationType: conversation.conversationType,
+      history: contextWindow.messages.map((msg) => ({
         role: msg.role,
         content: msg.content,
       })),
+      summary: contextWindow.summary,
       metadata: conversation.metadata as ConversationMetadata,
     };
 
-    // 5. Compile prompts using 3-layer system
-    const compiledPrompt = await this.promptService.compilePrompt(context);
+    // 6. Compile prompts using 3-layer system, with the template bodies
+    // of the experiment variants this user or conversation is bucketed into
+    const experiments = await this.experimentService
+      .assign({ userId, conversationId })
+      .catch((error) => {
+        this.logger.error('Error assigning experiment variants', error);
+        return { assignments: [] as ExperimentAssignment[], overrides: [] };
+      });
+    const compiledPrompt = await this.promptService.compilePrompt(
+      context,
+      experiments.overrides,
+    );
+
+    return {
+      userId,
+      conversation,
+      conversationId,
+      userMessage,
+      llmProvider: this.llmProviderRegistry.resolve(conversation.provider),
+      llmMessages: context.history.map((msg) => ({
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: msg.content,
+      })),
+      generateOptions: {
+        systemInstructions: [
+          compiledPrompt.systemPrompt,
+          compiledPrompt.userPrompt,
+          compiledPrompt.contextPrompt,
+        ],
+      },
+      systemPrompt: compiledPrompt.systemPrompt,
+      promptTemplates: compiledPrompt.templates,
+      // Only experiments whose template made it into the prompt
+      experiments: experiments.assignments.filter((assignment) =>
+        compiledPrompt.templates.some(
+          (template) => template.name === assignment.templateName,
+        ),
+      ),
+      audioReply: dto.audioReply ?? this.ttsAutoReply,
+      summarize: this.contextWindowService.needsSummary(contextWindow),
+    };
+  }
 
-    // 6. Generate AI response
-    const geminiMessages: GeminiMessage[] = context.history.map((msg) => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.content }],
-    }));
+  /**
+   * Steps after the reply is generated: response guard, analysis,
+   * assistant message persistence, usage accounting and the optional
+   * spoken reply
+   */
+  private async completeTurn(
+    turn: PreparedTurn,
+    aiResponse: LlmResponse,
+    options: { assistantMessageId?: Types.ObjectId; cancelled?: boolean } = {},
+  ): Promise<{
+    userMessage: MessageDocument;
+    assistantMessage: MessageDocument;
+  }> {
+    const { userId, conversation, conversationId, userMessage, llmProvider } =
+      turn;
+
+    // 8. Check the reply for prompt leaks and off-policy content, then
+    // save it. Cancelled streams are fixed without generating again, and
+    // a user out of quota gets the redacted or fallback reply instead.
+    const guarded = await this.responseGuardService.guard(
+      aiResponse.text,
+      turn.systemPrompt,
+      options.cancelled
+        ? undefined
+        : async (instruction) => {
+            await this.quotaService.assertWithinQuota(userId);
+            return llmProvider.generate(turn.llmMessages, {
+              ...turn.generateOptions,
+              systemInstructions: [
+                ...(turn.generateOptions.systemInstructions || []),
+                instruction,
+              ],
+            });
+          },
+    );
+    const reply = guarded.regenerated.at(-1) ?? aiResponse;
 
-    const aiResponse = await this.geminiService.generateResponse(
-      geminiMessages,
-      compiledPrompt.fullPrompt,
+    const assistantMessage = await this.createMessage(
+      {
+        conversationId,
+        role: 'assistant',
+        content: guarded.text,
+        type: 'text',
+      },
+      options.assistantMessageId,
     );
 
-    // 7. Analyze user message (grammar, vocabulary)
-    let analysis;
+    // 9. Queue analysis of the user message (grammar, vocabulary)
+    userMessage.analysisStatus = 'pending';
+    await userMessage.save();
     try {
-      analysis = await this.geminiService.analyzeText(
-        dto.content,
-        conversation.metadata?.level || 'intermediate',
-      );
+      await this.jobsService.enqueue<MessageAnalysisJob>(MESSAGE_ANALYSIS_JOB, {
+        messageId: (userMessage._id as any).toString(),
+        conversationId,
+        userId,
+        provider: conversation.provider,
+        level: conversation.metadata?.level || 'intermediate',
+      });
     } catch (error) {
-      this.logger.error('Error analyzing text', error);
-      analysis = null;
-    }
-
-    // 8. Save assistant message
-    const assistantMessage = await this.createMessage({
-      conversationId,
-      role: 'assistant',
-      content: aiResponse.text,
-      type: 'text',
-    });
-
-    // 9. Update user message with analysis
-    if (analysis) {
-      userMessage.analysis = analysis;
+      this.logger.error('Error queueing message analysis', error);
+      userMessage.analysisStatus = 'failed';
       await userMessage.save();
     }
 
     // 10. Update assistant message metadata
     assistantMessage.metadata = {
-      model: 'gemini-pro',
-      tokensUsed: aiResponse.tokensUsed,
-      processingTime: aiResponse.processingTime,
+      provider: reply.provider || llmProvider.name,
+      model: reply.model,
+      promptTokens: reply.usage.promptTokens,
+      completionTokens: reply.usage.completionTokens,
+      tokensUsed: reply.usage.totalTokens,
+      processingTime: reply.processingTime,
+      promptTemplates: turn.promptTemplates,
+      ...(turn.experiments.length ? { experiments: turn.experiments } : {}),
+      ...(options.cancelled ? { cancelled: true } : {}),
+      ...(guarded.intervention ? { guard: guarded.intervention } : {}),
     };
     await assistantMessage.save();
 
+    // Discarded replies were paid for too; regenerations count towards
+    // the token quota but not the message quota
+    const generations = [
+      { response: aiResponse, operation: 'chat' as const },
+      ...guarded.regenerated.map((response) => ({
+        response,
+        operation: 'guard' as const,
+      })),
+    ];
+    for (const { response, operation } of generations) {
+      await this.usageService.record({
+        userId,
+        conversationId,
+        messageId: (assistantMessage._id as any).toString(),
+        provider: response.provider || llmProvider.name,
+        model: response.model,
+        operation,
+        usage: response.usage,
+      });
+    }
+
+    // 11. Synthesize the reply for listening practice
+    if (turn.audioReply && !options.cancelled) {
+      await this.synthesizeReply(turn, assistantMessage);
+    }
+
+    // 12. Fold the turns that left the context window into the summary
+    if (turn.summarize) {
+      await this.requestSummary(turn);
+    }
+
     this.logger.log(
       `Processed message for conversation ${String(conversation._id)}`,
     );
@@ -217,16 +674,100 @@ export class ConversationService {
     return { userMessage, assistantMessage };
   }
 
+  /**
+   * Queue a summary job unless one is already queued for the conversation
+   */
+  private async requestSummary(turn: PreparedTurn): Promise<void> {
+    const claimed = await this.conversationModel
+      .findOneAndUpdate(
+        { _id: turn.conversationId, summaryPending: { $ne: true } },
+        { $set: { summaryPending: true } },
+      )
+      .exec();
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      await this.jobsService.enqueue<ConversationSummaryJob>(
+        CONVERSATION_SUMMARY_JOB,
+        {
+          conversationId: turn.conversationId,
+          userId: turn.userId,
+          provider: turn.conversation.provider,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Error queueing conversation summary', error);
+      await this.conversationModel
+        .updateOne(
+          { _id: turn.conversationId },
+          { $set: { summaryPending: false } },
+        )
+        .exec();
+    }
+  }
+
+  /**
+   * Store a spoken version of the assistant reply. Failures only cost the
+   * audio, the text reply is kept.
+   */
+  private async synthesizeReply(
+    turn: PreparedTurn,
+    assistantMessage: MessageDocument,
+  ): Promise<void> {
+    try {
+      const speech = await this.speechService.synthesize(
+        assistantMessage.content,
+      );
+      const stored = await this.storageService.save(
+        `tts/${turn.userId}`,
+        speech.data,
+        speech.mimeType,
+      );
+
+      assistantMessage.audioKey = stored.key;
+      assistantMessage.audioUrl = this.getMessageAudioUrl(
+        turn.conversationId,
+        assistantMessage._id as Types.ObjectId,
+      );
+      assistantMessage.metadata = {
+        ...assistantMessage.metadata,
+        speech: { provider: speech.provider, duration: speech.duration },
+      };
+      await assistantMessage.save();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to synthesize reply ${String(assistantMessage._id)}: ${error.message}`,
+      );
+    }
+  }
+
+  private getMessageAudioUrl(
+    conversationId: string,
+    messageId: Types.ObjectId,
+  ): string {
+    return `/conversations/${conversationId}/messages/${messageId.toString()}/audio`;
+  }
+
   /**
    * Create a message
    */
-  async createMessage(dto: CreateMessageDto): Promise<MessageDocument> {
+  async createMessage(
+    dto: CreateMessageDto,
+    messageId?: Types.ObjectId,
+  ): Promise<MessageDocument> {
     const message = new this.messageModel({
+      _id: messageId,
       conversationId: new Types.ObjectId(dto.conversationId),
       role: dto.role,
       content: dto.content,
       type: dto.type || 'text',
       audioUrl: dto.audioUrl,
+      audioKey: dto.audioKey,
+      transcription: dto.transcription,
+      expectedText: dto.expectedText,
+      metadata: dto.moderation ? { moderation: dto.moderation } : undefined,
     });
 
     await message.save();
@@ -266,6 +807,21 @@ export class ConversationService {
    * Delete a conversation and its messages
    */
   async deleteConversation(conversationId: string): Promise<void> {
+    // Delete stored audio
+    const audioMessages = await this.messageModel
+      .find({ conversationId, audioKey: { $exists: true } })
+      .select('audioKey')
+      .exec();
+    for (const message of audioMessages) {
+      await this.storageService
+        .delete(message.audioKey!)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to delete audio ${message.audioKey}: ${error.message}`,
+          ),
+        );
+    }
+
     // Delete all messages
     await this.messageModel.deleteMany({ conversationId }).exec();
 
@@ -2,6 +2,7 @@ import {
   WebSocketGateway,
   WebSocketServer,
   SubscribeMessage,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
   ConnectedSocket,
@@ -12,6 +13,13 @@ import { Logger, UsePipes, ValidationPipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ConversationService } from '../conversation.service';
 import { SendMessageDto } from '../dto/send-message.dto';
+import { QuotaExceededException } from '../../quota/quota-exceeded.exception';
+import { LlmUnavailableException } from '../../llm/llm-unavailable.exception';
+import { MessageBlockedException } from '../../moderation/message-blocked.exception';
+import { AuthService } from '../../auth/auth.service';
+import { AuthenticatedUser } from '../../../common/interfaces/auth.interface';
+import { AudioInput } from '../../../common/interfaces/speech.interface';
+import { ConversationAction } from '../policies/conversation-access.policy';
 
 @ApiTags('websocket')
 @WebSocketGateway({
@@ -21,21 +29,56 @@ import { SendMessageDto } from '../dto/send-message.dto';
   },
 })
 export class ConversationGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(ConversationGateway.name);
-  private userSockets = new Map<string, string>(); // userId -> socketId
+  private generations = new Map<
+    string,
+    { socketId: string; controller: AbortController }
+  >(); // assistant messageId -> in-flight stream
 
-  constructor(private conversationService: ConversationService) {}
+  constructor(
+    private conversationService: ConversationService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Authenticate every connection during the handshake. The access token is
+   * read from `auth.token`, the Authorization header or the `token` query
+   * parameter; rejected clients receive a connect_error.
+   */
+  afterInit(server: Server) {
+    server.use((socket, next) => {
+      const token = this.extractToken(socket);
+
+      if (!token) {
+        next(new Error('Unauthorized - Missing access token'));
+        return;
+      }
+
+      this.authService
+        .verifyAccessToken(token)
+        .then((user) => {
+          socket.data.user = user;
+          next();
+        })
+        .catch(() => next(new Error('Unauthorized - Invalid access token')));
+    });
+  }
 
   /**
    * Handle client connection
    */
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+  async handleConnection(client: Socket) {
+    const user = this.getUser(client);
+
+    // Every socket of a user joins the same room
+    await client.join(this.getUserRoom(user.userId));
+
+    this.logger.log(`Client connected: ${client.id} (user ${user.userId})`);
   }
 
   /**
@@ -44,11 +87,11 @@ export class ConversationGateway
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
 
-    // Remove from user sockets map
-    for (const [userId, socketId] of this.userSockets.entries()) {
-      if (socketId === client.id) {
-        this.userSockets.delete(userId);
-        break;
+    // Stop generations nobody is listening to anymore
+    for (const [messageId, generation] of this.generations.entries()) {
+      if (generation.socketId === client.id) {
+        generation.controller.abort();
+        this.generations.delete(messageId);
       }
     }
   }
@@ -57,22 +100,19 @@ export class ConversationGateway
   @ApiOperation({
     summary: 'Register user to WebSocket',
     description:
-      'Maps userId to socketId for real-time messaging. Client receives "registered" event on success.',
+      'Confirms the authenticated user of the socket. The user is taken from the JWT sent in the handshake (auth.token, Authorization header or token query parameter). Client receives "registered" event on success.',
   })
   @ApiResponse({
     status: 200,
     description: 'User registered successfully, emits "registered" event',
   })
-  handleRegister(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string },
-  ) {
-    this.userSockets.set(data.userId, client.id);
-    this.logger.log(`User ${data.userId} registered to socket ${client.id}`);
+  handleRegister(@ConnectedSocket() client: Socket) {
+    const user = this.getUser(client);
+    this.logger.log(`User ${user.userId} registered to socket ${client.id}`);
 
     client.emit('registered', {
       success: true,
-      userId: data.userId,
+      userId: user.userId,
     });
   }
 
@@ -80,7 +120,7 @@ export class ConversationGateway
   @ApiOperation({
     summary: 'Send chat message',
     description:
-      'Process user message through AI tutor. Returns analysis and AI response. Emits: assistantTyping, messageReceived, messageResponse, error',
+      'Process user message through AI tutor. Emits: assistantTyping, messageReceived, messageResponse, error. With stream=true emits messageReceived, messageChunk (messageId, sequence) and messageComplete instead of messageResponse; the response guard holds back the last words of the reply until it has been checked, and the message in messageComplete replaces the streamed text when the guard changed it (metadata.guard). The grammar analysis runs in the background (analysisStatus "pending") and arrives later as "analysisReady"',
   })
   @ApiResponse({
     status: 200,
@@ -90,23 +130,106 @@ export class ConversationGateway
   @ApiResponse({
     status: 400,
     description:
-      'Validation error or prompt injection detected, emits error event',
+      'Validation error, or message blocked by injection moderation (error event with code MESSAGE_BLOCKED)',
   })
   @UsePipes(new ValidationPipe({ transform: true }))
   async handleSendMessage(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string; message: SendMessageDto },
+    @MessageBody()
+    data: { message: SendMessageDto; stream?: boolean },
+  ) {
+    const { userId } = this.getUser(client);
+    this.logger.log(`Message from ${userId}: ${data.message.content}`);
+
+    await this.respond(client, userId, data.message, data.stream);
+  }
+
+  @SubscribeMessage('sendAudio')
+  @ApiOperation({
+    summary: 'Send audio message',
+    description:
+      'Send a recorded message as binary data ({ audio, mimeType, conversationId?, stream?, audioReply?, expectedText? }). The audio is stored and transcribed, then answered like sendMessage with the same events; the user message carries audioKey and the transcription. Pronunciation scores, against expectedText in drills, arrive with "analysisReady"',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Audio transcribed and processed, emits messageReceived and messageResponse events',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Missing, empty, oversized or unsupported audio, emits error event',
+  })
+  async handleSendAudio(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    data: {
+      audio: Buffer | ArrayBuffer;
+      mimeType: string;
+      conversationId?: string;
+      stream?: boolean;
+      audioReply?: boolean;
+      expectedText?: string;
+    },
+  ) {
+    const { userId } = this.getUser(client);
+
+    if (!data?.audio) {
+      client.emit('error', {
+        message: 'Failed to process message',
+        error: 'Missing audio data',
+      });
+      return;
+    }
+
+    const audio: AudioInput = {
+      data: Buffer.isBuffer(data.audio) ? data.audio : Buffer.from(data.audio),
+      mimeType: data.mimeType,
+    };
+    this.logger.log(
+      `Audio message from ${userId} (${audio.data.length} bytes)`,
+    );
+
+    await this.respond(
+      client,
+      userId,
+      {
+        content: '',
+        type: 'audio',
+        conversationId: data.conversationId,
+        audioReply: data.audioReply,
+        expectedText: data.expectedText,
+      },
+      data.stream,
+      audio,
+    );
+  }
+
+  /**
+   * Answer a message with a single response or a stream, reporting
+   * failures as "error" events
+   */
+  private async respond(
+    client: Socket,
+    userId: string,
+    message: SendMessageDto,
+    stream?: boolean,
+    audio?: AudioInput,
   ) {
     try {
-      this.logger.log(`Message from ${data.userId}: ${data.message.content}`);
+      if (stream) {
+        await this.streamResponse(client, userId, message, audio);
+        return;
+      }
 
       // Emit typing indicator
       this.server.to(client.id).emit('assistantTyping', { isTyping: true });
 
       // Process message
       const result = await this.conversationService.processMessage(
-        data.userId,
-        data.message,
+        userId,
+        message,
+        audio,
       );
 
       // Stop typing indicator
@@ -122,10 +245,11 @@ export class ConversationGateway
       this.server.to(client.id).emit('messageResponse', {
         message: result.assistantMessage,
         analysis: result.userMessage.analysis,
+        analysisStatus: result.userMessage.analysisStatus,
         conversationId: result.assistantMessage.conversationId,
       });
 
-      this.logger.log(`Response sent to ${data.userId}`);
+      this.logger.log(`Response sent to ${userId}`);
     } catch (error) {
       this.logger.error(
         `Error processing message: ${error.message}`,
@@ -133,6 +257,39 @@ export class ConversationGateway
       );
 
       this.server.to(client.id).emit('assistantTyping', { isTyping: false });
+
+      if (error instanceof QuotaExceededException) {
+        this.server.to(client.id).emit('error', {
+          message: 'Quota exceeded',
+          code: 'QUOTA_EXCEEDED',
+          error: error.message,
+          plan: error.plan,
+          period: error.period,
+          metric: error.metric,
+          limit: error.limit,
+          resetsAt: error.resetsAt,
+        });
+        return;
+      }
+
+      if (error instanceof LlmUnavailableException) {
+        this.server.to(client.id).emit('error', {
+          message: 'Tutor unavailable',
+          code: 'LLM_UNAVAILABLE',
+          error: error.message,
+        });
+        return;
+      }
+
+      if (error instanceof MessageBlockedException) {
+        this.server.to(client.id).emit('error', {
+          message: 'Message blocked',
+          code: 'MESSAGE_BLOCKED',
+          error: error.message,
+        });
+        return;
+      }
+
       this.server.to(client.id).emit('error', {
         message: 'Failed to process message',
         error: error.message,
@@ -140,22 +297,138 @@ export class ConversationGateway
     }
   }
 
+  @SubscribeMessage('cancelGeneration')
+  @ApiOperation({
+    summary: 'Cancel streaming reply',
+    description:
+      'Abort an in-flight streamed reply by messageId. The partial reply is kept and flagged as cancelled. Emits "generationCancelled".',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Generation aborted, emits generationCancelled event',
+  })
+  handleCancelGeneration(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    const generation = this.generations.get(data.messageId);
+
+    if (!generation || generation.socketId !== client.id) {
+      client.emit('error', {
+        message: 'Failed to cancel generation',
+        error: `No active generation ${data.messageId}`,
+      });
+      return;
+    }
+
+    generation.controller.abort();
+    this.generations.delete(data.messageId);
+    this.logger.log(`Generation ${data.messageId} cancelled by client`);
+
+    client.emit('generationCancelled', { messageId: data.messageId });
+  }
+
   @SubscribeMessage('typing')
   @ApiOperation({
     summary: 'Typing indicator',
     description:
-      'Broadcast typing status to other users. Emits "userTyping" event to other clients.',
+      'Send typing status ({ conversationId, isTyping }) to the other sockets following the conversation: the same user on other devices and admins who opened it with getConversation. They receive a "userTyping" event. Requires write access to the conversation.',
   })
-  @ApiResponse({ status: 200, description: 'Typing indicator broadcasted' })
-  handleTyping(
+  @ApiResponse({ status: 200, description: 'Typing indicator sent' })
+  @ApiResponse({
+    status: 403,
+    description: 'Conversation belongs to another user, emits error event',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found, emits error event',
+  })
+  async handleTyping(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string; isTyping: boolean },
+    @MessageBody() data: { conversationId: string; isTyping: boolean },
   ) {
-    // Broadcast to other users in the same conversation if needed
-    client.broadcast.emit('userTyping', {
-      userId: data.userId,
-      isTyping: data.isTyping,
-    });
+    const user = this.getUser(client);
+
+    try {
+      await this.joinConversation(client, data.conversationId, 'write');
+    } catch (error) {
+      client.emit('error', {
+        message: 'Failed to send typing indicator',
+        error: error.message,
+      });
+      return;
+    }
+
+    client
+      .to(this.getConversationRoom(data.conversationId))
+      .emit('userTyping', {
+        conversationId: data.conversationId,
+        userId: user.userId,
+        isTyping: data.isTyping,
+      });
+  }
+
+  /**
+   * Stream the tutor reply chunk by chunk, then emit the persisted message
+   */
+  private async streamResponse(
+    client: Socket,
+    userId: string,
+    message: SendMessageDto,
+    audio?: AudioInput,
+  ) {
+    const controller = new AbortController();
+    let messageId: string | undefined;
+
+    try {
+      this.server.to(client.id).emit('assistantTyping', { isTyping: true });
+
+      const result = await this.conversationService.streamMessage(
+        userId,
+        message,
+        {
+          signal: controller.signal,
+          onStart: (userMessage, assistantMessageId) => {
+            messageId = assistantMessageId;
+            this.generations.set(assistantMessageId, {
+              socketId: client.id,
+              controller,
+            });
+
+            this.server.to(client.id).emit('messageReceived', {
+              message: userMessage,
+              messageId: assistantMessageId,
+              conversationId: userMessage.conversationId,
+            });
+          },
+          onChunk: (chunk, sequence) => {
+            this.server.to(client.id).emit('messageChunk', {
+              messageId,
+              sequence,
+              chunk,
+            });
+          },
+        },
+        audio,
+      );
+
+      this.server.to(client.id).emit('assistantTyping', { isTyping: false });
+
+      this.server.to(client.id).emit('messageComplete', {
+        messageId,
+        message: result.assistantMessage,
+        analysis: result.userMessage.analysis,
+        analysisStatus: result.userMessage.analysisStatus,
+        conversationId: result.userMessage.conversationId,
+        cancelled: result.cancelled,
+      });
+
+      this.logger.log(`Streamed response ${messageId} sent to ${userId}`);
+    } finally {
+      if (messageId) {
+        this.generations.delete(messageId);
+      }
+    }
   }
 
   @SubscribeMessage('getConversation')
@@ -168,6 +441,10 @@ export class ConversationGateway
     status: 200,
     description: 'Conversation retrieved, emits conversationData event',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Conversation belongs to another user, emits error event',
+  })
   @ApiResponse({
     status: 404,
     description: 'Conversation not found, emits error event',
@@ -177,9 +454,14 @@ export class ConversationGateway
     @MessageBody() data: { conversationId: string },
   ) {
     try {
-      const conversation = await this.conversationService.getConversation(
-        data.conversationId,
-      );
+      const conversation =
+        await this.conversationService.getConversationForUser(
+          data.conversationId,
+          this.getUser(client),
+          'read',
+        );
+      // Follow the conversation's typing indicators from now on
+      await client.join(this.getConversationRoom(data.conversationId));
       const messages = await this.conversationService.getConversationMessages(
         data.conversationId,
       );
@@ -208,13 +490,10 @@ export class ConversationGateway
     description:
       'Active conversation retrieved, emits activeConversation event',
   })
-  async handleGetActiveConversation(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string },
-  ) {
+  async handleGetActiveConversation(@ConnectedSocket() client: Socket) {
     try {
       const conversation = await this.conversationService.getActiveConversation(
-        data.userId,
+        this.getUser(client).userId,
       );
 
       if (conversation) {
@@ -251,6 +530,10 @@ export class ConversationGateway
     status: 200,
     description: 'Conversation ended, emits conversationEnded event',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Conversation belongs to another user, emits error event',
+  })
   @ApiResponse({
     status: 404,
     description: 'Conversation not found, emits error event',
@@ -260,6 +543,12 @@ export class ConversationGateway
     @MessageBody() data: { conversationId: string },
   ) {
     try {
+      await this.conversationService.getConversationForUser(
+        data.conversationId,
+        this.getUser(client),
+        'manage',
+      );
+
       const conversation = await this.conversationService.endConversation(
         data.conversationId,
       );
@@ -277,4 +566,66 @@ export class ConversationGateway
       });
     }
   }
+
+  /**
+   * Emit to every socket of a user
+   */
+  emitToUser(userId: string, event: string, payload: unknown) {
+    this.server.to(this.getUserRoom(userId)).emit(event, payload);
+  }
+
+  private extractToken(socket: Socket): string | undefined {
+    const { auth, headers, query } = socket.handshake;
+
+    if (typeof auth?.token === 'string' && auth.token) {
+      return auth.token.replace(/^Bearer\s+/i, '');
+    }
+
+    const [scheme, token] = (headers.authorization || '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+
+    return typeof query.token === 'string' ? query.token : undefined;
+  }
+
+  /**
+   * User authenticated during the handshake
+   */
+  private getUser(client: Socket): AuthenticatedUser {
+    return client.data.user as AuthenticatedUser;
+  }
+
+  private getUserRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  /**
+   * Join the room of a conversation once the user may perform the action on
+   * it. Each action is checked once per socket.
+   */
+  private async joinConversation(
+    client: Socket,
+    conversationId: string,
+    action: ConversationAction,
+  ): Promise<void> {
+    const checked: Set<string> = (client.data.checkedConversations ??=
+      new Set<string>());
+    const key = `${action}:${conversationId}`;
+    if (checked.has(key)) {
+      return;
+    }
+
+    await this.conversationService.getConversationForUser(
+      conversationId,
+      this.getUser(client),
+      action,
+    );
+    checked.add(key);
+    await client.join(this.getConversationRoom(conversationId));
+  }
+
+  private getConversationRoom(conversationId: string): string {
+    return `conversation:${conversationId}`;
+  }
 }
@@ -0,0 +1,32 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  CONVERSATION_ACTION_KEY,
+  ConversationAccessGuard,
+} from '../guards/conversation-access.guard';
+import { ConversationAction } from '../policies/conversation-access.policy';
+
+/**
+ * Load the conversation from the :id route param and check the current user
+ * may perform the action on it
+ */
+export const ConversationAccess = (action: ConversationAction) =>
+  applyDecorators(
+    SetMetadata(CONVERSATION_ACTION_KEY, action),
+    UseGuards(ConversationAccessGuard),
+  );
+
+/**
+ * Conversation loaded by ConversationAccessGuard
+ */
+export const CurrentConversation = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.conversation;
+  },
+);
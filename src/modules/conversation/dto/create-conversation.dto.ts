@@ -9,11 +9,17 @@ export class CreateConversationDto {
   @IsOptional()
   conversationType?: string;
 
+  @IsString()
+  @IsOptional()
+  provider?: string;
+
   @IsOptional()
   metadata?: {
     level?: string;
     topic?: string;
+    topicTags?: string[];
     simulationType?: string;
     userGoals?: string[];
+    locale?: string;
   };
 }
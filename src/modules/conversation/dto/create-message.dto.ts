@@ -1,4 +1,6 @@
 import { IsString, IsEnum, IsOptional, IsUrl } from 'class-validator';
+import type { MessageTranscription } from '../../../common/interfaces/conversation.interface';
+import type { MessageModeration } from '../../../common/interfaces/moderation.interface';
 
 export class CreateMessageDto {
   @IsString()
@@ -17,4 +19,18 @@ export class CreateMessageDto {
   @IsUrl()
   @IsOptional()
   audioUrl?: string;
+
+  @IsString()
+  @IsOptional()
+  audioKey?: string;
+
+  @IsOptional()
+  transcription?: MessageTranscription;
+
+  @IsString()
+  @IsOptional()
+  expectedText?: string;
+
+  @IsOptional()
+  moderation?: MessageModeration;
 }
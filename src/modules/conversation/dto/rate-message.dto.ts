@@ -0,0 +1,32 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RateMessageDto {
+  @ApiProperty({
+    description: 'How helpful the tutor reply was, from 1 to 5',
+    example: 4,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  score: number;
+
+  @ApiProperty({
+    description: 'Optional feedback',
+    example: 'Clear explanation of the past tense',
+    required: false,
+  })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  comment?: string;
+}
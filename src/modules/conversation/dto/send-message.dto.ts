@@ -1,11 +1,19 @@
-import { IsString, IsOptional, IsEnum } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  ValidateIf,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class SendMessageDto {
   @ApiProperty({
-    description: 'Message content (text or audio data)',
+    description:
+      'Message content; filled from the transcript for audio messages',
     example: 'Hello, I want to practice my English conversation skills',
   })
+  @ValidateIf((dto: SendMessageDto) => dto.type !== 'audio')
   @IsString()
   content: string;
 
@@ -28,4 +36,24 @@ export class SendMessageDto {
   @IsString()
   @IsOptional()
   conversationId?: string;
+
+  @ApiProperty({
+    description:
+      'Synthesize the tutor reply as audio (defaults to TTS_AUTO_REPLY)',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  audioReply?: boolean;
+
+  @ApiProperty({
+    description:
+      'Drill sentence the learner reads aloud; audio messages are scored for pronunciation against it instead of the transcript',
+    example: 'I would like a cup of coffee, please.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  expectedText?: string;
 }
@@ -0,0 +1,137 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { ConversationService } from '../conversation.service';
+import {
+  ConversationAccessPolicy,
+  ConversationAction,
+} from '../policies/conversation-access.policy';
+import {
+  CONVERSATION_ACTION_KEY,
+  ConversationAccessGuard,
+} from './conversation-access.guard';
+
+describe('ConversationAccessGuard', () => {
+  const ownerId = new Types.ObjectId().toString();
+  const otherId = new Types.ObjectId().toString();
+  const conversationId = new Types.ObjectId().toString();
+  const conversation = {
+    _id: new Types.ObjectId(conversationId),
+    userId: new Types.ObjectId(ownerId),
+  };
+
+  let guard: ConversationAccessGuard;
+  let conversationService: { getConversation: jest.Mock };
+
+  const createContext = (
+    user: { userId: string; role: string },
+    action?: ConversationAction,
+    id = conversationId,
+  ) => {
+    const handler = () => undefined;
+    if (action) {
+      Reflect.defineMetadata(CONVERSATION_ACTION_KEY, action, handler);
+    }
+    const request: Record<string, any> = { user, params: { id } };
+    const context = {
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    return { context, request };
+  };
+
+  beforeEach(async () => {
+    conversationService = {
+      getConversation: jest.fn((id: string) =>
+        id === conversationId
+          ? Promise.resolve(conversation)
+          : Promise.reject(
+              new NotFoundException(`Conversation ${id} not found`),
+            ),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationAccessGuard,
+        ConversationAccessPolicy,
+        Reflector,
+        { provide: ConversationService, useValue: conversationService },
+      ],
+    }).compile();
+
+    guard = module.get(ConversationAccessGuard);
+  });
+
+  it('lets the owner through and attaches the conversation', async () => {
+    const { context, request } = createContext(
+      { userId: ownerId, role: 'user' },
+      'write',
+    );
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.conversation).toBe(conversation);
+  });
+
+  it('defaults to the read action', async () => {
+    const { context } = createContext({ userId: otherId, role: 'admin' });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+
+  it.each<ConversationAction>(['read', 'write', 'manage'])(
+    'rejects another user trying to %s with 403',
+    async (action) => {
+      const { context, request } = createContext(
+        { userId: otherId, role: 'user' },
+        action,
+      );
+
+      await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(request.conversation).toBeUndefined();
+    },
+  );
+
+  it.each<ConversationAction>(['read', 'manage'])(
+    'lets an admin %s',
+    async (action) => {
+      const { context } = createContext(
+        { userId: otherId, role: 'admin' },
+        action,
+      );
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+    },
+  );
+
+  it('rejects an admin writing in a student conversation with 403', async () => {
+    const { context } = createContext(
+      { userId: otherId, role: 'admin' },
+      'write',
+    );
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects unknown conversations with 404', async () => {
+    const { context } = createContext(
+      { userId: ownerId, role: 'user' },
+      'read',
+      new Types.ObjectId().toString(),
+    );
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
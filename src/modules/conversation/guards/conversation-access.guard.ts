@@ -0,0 +1,37 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConversationService } from '../conversation.service';
+import {
+  ConversationAccessPolicy,
+  ConversationAction,
+} from '../policies/conversation-access.policy';
+
+export const CONVERSATION_ACTION_KEY = 'conversationAction';
+
+@Injectable()
+export class ConversationAccessGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private conversationService: ConversationService,
+    private accessPolicy: ConversationAccessPolicy,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const action =
+      this.reflector.get<ConversationAction>(
+        CONVERSATION_ACTION_KEY,
+        context.getHandler(),
+      ) || 'read';
+
+    const request = context.switchToHttp().getRequest();
+
+    // Throws 404 for unknown conversations, 403 when access is denied
+    const conversation = await this.conversationService.getConversation(
+      request.params.id,
+    );
+    this.accessPolicy.assert(request.user, conversation, action);
+
+    request.conversation = conversation;
+    return true;
+  }
+}
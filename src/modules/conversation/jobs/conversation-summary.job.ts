@@ -0,0 +1,7 @@
+export const CONVERSATION_SUMMARY_JOB = 'conversation-summary';
+
+export interface ConversationSummaryJob {
+  conversationId: string;
+  userId: string;
+  provider?: string; // Conversation provider, environment default when unset
+}
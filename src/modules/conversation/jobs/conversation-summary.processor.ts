@@ -0,0 +1,127 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../schemas/conversation.schema';
+import { Message, MessageDocument } from '../schemas/message.schema';
+import { ContextWindowService } from '../context/context-window.service';
+import { JobsService } from '../../jobs/jobs.service';
+import { UsageService } from '../../usage/usage.service';
+import { LlmProviderRegistry } from '../../llm/llm-provider.registry';
+import { JobRecord } from '../../../common/interfaces/job.interface';
+import { ConversationSummary } from '../../../common/interfaces/conversation.interface';
+import {
+  CONVERSATION_SUMMARY_JOB,
+  ConversationSummaryJob,
+} from './conversation-summary.job';
+
+/**
+ * Folds the turns that left the context window into the conversation's
+ * rolling summary, off the chat path
+ */
+@Injectable()
+export class ConversationSummaryProcessor implements OnModuleInit {
+  private readonly logger = new Logger(ConversationSummaryProcessor.name);
+
+  constructor(
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<ConversationDocument>,
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    private jobsService: JobsService,
+    private contextWindowService: ContextWindowService,
+    private usageService: UsageService,
+    private llmProviderRegistry: LlmProviderRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.jobsService.registerHandler<ConversationSummaryJob>(
+      CONVERSATION_SUMMARY_JOB,
+      (payload, job) => this.process(payload, job),
+    );
+  }
+
+  private async process(
+    payload: ConversationSummaryJob,
+    job: JobRecord<ConversationSummaryJob>,
+  ): Promise<void> {
+    try {
+      await this.summarize(payload);
+      await this.clearPending(payload.conversationId);
+    } catch (error) {
+      // Allow a new request once the queue gives up
+      if (job.attempts >= job.maxAttempts) {
+        await this.clearPending(payload.conversationId);
+      }
+      throw error;
+    }
+  }
+
+  private async summarize(payload: ConversationSummaryJob): Promise<void> {
+    const conversation = await this.conversationModel
+      .findById(payload.conversationId)
+      .exec();
+    if (!conversation) {
+      this.logger.warn(
+        `Conversation ${payload.conversationId} no longer exists`,
+      );
+      return;
+    }
+
+    const messages = await this.messageModel
+      .find({ conversationId: payload.conversationId })
+      .sort({ createdAt: 1 })
+      .exec();
+    const contextWindow = this.contextWindowService.buildWindow(
+      conversation,
+      messages,
+    );
+    if (contextWindow.unsummarized.length === 0) {
+      return;
+    }
+
+    const provider = this.llmProviderRegistry.resolve(payload.provider);
+    const response = await this.contextWindowService.summarize(
+      provider,
+      conversation.summary?.text,
+      contextWindow.unsummarized,
+    );
+
+    await this.usageService.record({
+      userId: payload.userId,
+      conversationId: payload.conversationId,
+      provider: response.provider || provider.name,
+      model: response.model,
+      operation: 'summary',
+      usage: response.usage,
+    });
+
+    const lastMessage =
+      contextWindow.unsummarized[contextWindow.unsummarized.length - 1];
+    const summary: ConversationSummary = {
+      text: response.text.trim(),
+      lastMessageId: String(lastMessage._id),
+      messageCount:
+        (conversation.summary?.messageCount ?? 0) +
+        contextWindow.unsummarized.length,
+      provider: response.provider || provider.name,
+      model: response.model,
+      updatedAt: new Date(),
+    };
+    await this.conversationModel
+      .updateOne({ _id: conversation._id }, { $set: { summary } })
+      .exec();
+
+    this.logger.debug(
+      `Summarized ${contextWindow.unsummarized.length} messages of conversation ${payload.conversationId}`,
+    );
+  }
+
+  private async clearPending(conversationId: string): Promise<void> {
+    await this.conversationModel
+      .updateOne({ _id: conversationId }, { $set: { summaryPending: false } })
+      .exec();
+  }
+}
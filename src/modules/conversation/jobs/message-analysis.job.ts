@@ -0,0 +1,26 @@
+import {
+  AnalysisStatus,
+  MessageAnalysis,
+  PronunciationAnalysis,
+} from '../../../common/interfaces/conversation.interface';
+
+export const MESSAGE_ANALYSIS_JOB = 'message-analysis';
+
+export interface MessageAnalysisJob {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  provider?: string; // Conversation provider, environment default when unset
+  level: string;
+}
+
+/**
+ * Pushed to the user as "analysisReady" once the job has finished
+ */
+export interface AnalysisReadyEvent {
+  messageId: string;
+  conversationId: string;
+  analysis: MessageAnalysis | null;
+  analysisStatus: AnalysisStatus;
+  pronunciation: PronunciationAnalysis | null; // Audio messages only
+}
@@ -0,0 +1,207 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { EventEmitter } from 'events';
+import { Message, MessageDocument } from '../schemas/message.schema';
+import { ConversationGateway } from '../conversation/conversation.gateway';
+import { JobsService } from '../../jobs/jobs.service';
+import { AnalysisService } from '../../analysis/analysis.service';
+import { UsageService } from '../../usage/usage.service';
+import { StorageService } from '../../storage/storage.service';
+import { SpeechService } from '../../speech/speech.service';
+import { LlmProviderRegistry } from '../../llm/llm-provider.registry';
+import { JobRecord } from '../../../common/interfaces/job.interface';
+import { AnalysisStatus } from '../../../common/interfaces/conversation.interface';
+import {
+  AnalysisReadyEvent,
+  MESSAGE_ANALYSIS_JOB,
+  MessageAnalysisJob,
+} from './message-analysis.job';
+
+/**
+ * Runs grammar/vocabulary analysis (and pronunciation assessment of audio
+ * messages) off the chat path, stores it on the message and notifies the
+ * user's sockets
+ */
+@Injectable()
+export class MessageAnalysisProcessor implements OnModuleInit {
+  private readonly logger = new Logger(MessageAnalysisProcessor.name);
+  private readonly completed = new EventEmitter();
+  private readonly waitTimeoutMs: number;
+
+  constructor(
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    private jobsService: JobsService,
+    private analysisService: AnalysisService,
+    private usageService: UsageService,
+    private llmProviderRegistry: LlmProviderRegistry,
+    private conversationGateway: ConversationGateway,
+    private storageService: StorageService,
+    private speechService: SpeechService,
+    private configService: ConfigService,
+  ) {
+    this.completed.setMaxListeners(0);
+    this.waitTimeoutMs = Number(
+      this.configService.get('ANALYSIS_WAIT_TIMEOUT_MS', 15000),
+    );
+  }
+
+  onModuleInit() {
+    this.jobsService.registerHandler<MessageAnalysisJob>(
+      MESSAGE_ANALYSIS_JOB,
+      (payload, job) => this.process(payload, job),
+    );
+  }
+
+  /**
+   * Resolve once the message analysis is stored, or null on timeout
+   */
+  async waitForAnalysis(
+    messageId: string,
+    timeoutMs: number = this.waitTimeoutMs,
+  ): Promise<AnalysisReadyEvent | null> {
+    let onCompleted: (event: AnalysisReadyEvent) => void = () => undefined;
+    let timer: NodeJS.Timeout | undefined;
+
+    // Subscribe before reading so a job finishing in between is not missed
+    const completed = new Promise<AnalysisReadyEvent | null>((resolve) => {
+      onCompleted = resolve;
+      timer = setTimeout(() => resolve(null), timeoutMs);
+      this.completed.once(messageId, onCompleted);
+    });
+
+    try {
+      const message = await this.messageModel.findById(messageId).exec();
+      if (message && message.analysisStatus !== 'pending') {
+        return this.toEvent(message);
+      }
+
+      return await completed;
+    } finally {
+      clearTimeout(timer);
+      this.completed.off(messageId, onCompleted);
+    }
+  }
+
+  private async process(
+    payload: MessageAnalysisJob,
+    job: JobRecord<MessageAnalysisJob>,
+  ): Promise<void> {
+    try {
+      await this.analyze(payload, job);
+    } catch (error) {
+      // Do not leave the message pending forever after the last attempt
+      if (job.attempts >= job.maxAttempts) {
+        const message = await this.messageModel
+          .findByIdAndUpdate(
+            payload.messageId,
+            { analysisStatus: 'failed' },
+            { new: true },
+          )
+          .exec()
+          .catch(() => null);
+        this.notify(
+          payload,
+          message
+            ? this.toEvent(message)
+            : {
+                messageId: payload.messageId,
+                conversationId: payload.conversationId,
+                analysis: null,
+                analysisStatus: 'failed',
+                pronunciation: null,
+              },
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async analyze(
+    payload: MessageAnalysisJob,
+    job: JobRecord<MessageAnalysisJob>,
+  ): Promise<void> {
+    const message = await this.messageModel.findById(payload.messageId).exec();
+    if (!message) {
+      this.logger.warn(`Message ${payload.messageId} no longer exists`);
+      return;
+    }
+
+    // Saved on its own so a failing text analysis does not lose it
+    if (message.audioKey && !message.pronunciation) {
+      await this.assessPronunciation(message);
+    }
+
+    const outcome = await this.analysisService.analyzeText(
+      this.llmProviderRegistry.resolve(payload.provider),
+      message.content,
+      payload.level,
+    );
+
+    if (outcome.usage.totalTokens > 0) {
+      await this.usageService.record({
+        userId: payload.userId,
+        conversationId: payload.conversationId,
+        messageId: payload.messageId,
+        provider: outcome.provider,
+        model: outcome.model,
+        operation: 'analysis',
+        usage: outcome.usage,
+      });
+    }
+
+    // Let the queue retry; only the last attempt stores a failure
+    if (outcome.status === 'failed' && job.attempts < job.maxAttempts) {
+      throw new Error(`Analysis failed: ${outcome.errors.join('; ')}`);
+    }
+
+    if (outcome.analysis) {
+      message.analysis = outcome.analysis;
+    }
+    message.analysisStatus = outcome.status;
+    await message.save();
+
+    this.notify(payload, this.toEvent(message));
+
+    this.logger.debug(
+      `Analysis of message ${payload.messageId} ${outcome.status}`,
+    );
+  }
+
+  /**
+   * Score the recording against the drill sentence or the transcript.
+   * Failures leave the message without pronunciation feedback.
+   */
+  private async assessPronunciation(message: MessageDocument): Promise<void> {
+    try {
+      const audio = await this.storageService.get(message.audioKey!);
+      message.pronunciation = await this.speechService.assessPronunciation(
+        { data: audio.data, mimeType: audio.contentType },
+        message.content,
+        message.expectedText,
+      );
+      await message.save();
+    } catch (error) {
+      this.logger.warn(
+        `Pronunciation assessment of message ${String(message._id)} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private notify(payload: MessageAnalysisJob, event: AnalysisReadyEvent) {
+    this.conversationGateway.emitToUser(payload.userId, 'analysisReady', event);
+    this.completed.emit(payload.messageId, event);
+  }
+
+  private toEvent(message: MessageDocument): AnalysisReadyEvent {
+    return {
+      messageId: (message._id as any).toString(),
+      conversationId: message.conversationId.toString(),
+      analysis: message.analysis ?? null,
+      analysisStatus: message.analysisStatus as AnalysisStatus,
+      pronunciation: message.pronunciation ?? null,
+    };
+  }
+}
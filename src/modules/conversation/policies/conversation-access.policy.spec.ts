@@ -0,0 +1,71 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ConversationDocument } from '../schemas/conversation.schema';
+import {
+  ConversationAccessPolicy,
+  ConversationAction,
+} from './conversation-access.policy';
+
+describe('ConversationAccessPolicy', () => {
+  const ownerId = new Types.ObjectId().toString();
+  const otherId = new Types.ObjectId().toString();
+  const conversation = {
+    userId: new Types.ObjectId(ownerId),
+  } as unknown as ConversationDocument;
+  const actions: ConversationAction[] = ['read', 'write', 'manage'];
+
+  let policy: ConversationAccessPolicy;
+
+  beforeEach(() => {
+    policy = new ConversationAccessPolicy();
+  });
+
+  it.each(actions)('lets the owner %s the conversation', (action) => {
+    expect(
+      policy.can({ userId: ownerId, role: 'user' }, conversation, action),
+    ).toBe(true);
+  });
+
+  it.each(actions)('refuses another user to %s the conversation', (action) => {
+    const actor = { userId: otherId, role: 'user' };
+
+    expect(policy.can(actor, conversation, action)).toBe(false);
+    expect(() => policy.assert(actor, conversation, action)).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it.each<ConversationAction>(['read', 'manage'])(
+    'lets an admin %s the conversation',
+    (action) => {
+      expect(
+        policy.can({ userId: otherId, role: 'admin' }, conversation, action),
+      ).toBe(true);
+    },
+  );
+
+  it('refuses an admin to write in a student conversation', () => {
+    const actor = { userId: otherId, role: 'admin' };
+
+    expect(policy.can(actor, conversation, 'write')).toBe(false);
+    expect(() => policy.assert(actor, conversation, 'write')).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('treats actors without a role as regular users', () => {
+    expect(policy.can({ userId: otherId }, conversation, 'read')).toBe(false);
+  });
+
+  it('grants access through registered rules', () => {
+    policy.registerRule({
+      name: 'teacher',
+      allows: (actor, _conversation, action) =>
+        actor.role === 'teacher' && action === 'read',
+    });
+    const actor = { userId: otherId, role: 'teacher' };
+
+    expect(policy.can(actor, conversation, 'read')).toBe(true);
+    expect(policy.can(actor, conversation, 'write')).toBe(false);
+  });
+});
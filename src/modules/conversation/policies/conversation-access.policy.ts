@@ -0,0 +1,69 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ConversationDocument } from '../schemas/conversation.schema';
+import { AuthenticatedUser } from '../../../common/interfaces/auth.interface';
+
+/**
+ * read: view a conversation and its messages
+ * write: send messages in it
+ * manage: end or delete it
+ */
+export type ConversationAction = 'read' | 'write' | 'manage';
+
+export type ConversationActor = Pick<AuthenticatedUser, 'userId'> &
+  Partial<Pick<AuthenticatedUser, 'role'>>;
+
+export interface ConversationAccessRule {
+  name: string;
+  allows(
+    actor: ConversationActor,
+    conversation: ConversationDocument,
+    action: ConversationAction,
+  ): boolean;
+}
+
+const ownerRule: ConversationAccessRule = {
+  name: 'owner',
+  allows: (actor, conversation) =>
+    conversation.userId.toString() === actor.userId,
+};
+
+// Admins can review and moderate, but never speak on behalf of a student
+const adminRule: ConversationAccessRule = {
+  name: 'admin',
+  allows: (actor, _conversation, action) =>
+    actor.role === 'admin' && action !== 'write',
+};
+
+/**
+ * Decides who may act on a conversation. Access is granted when any rule
+ * allows it; new roles (e.g. teachers) plug in through registerRule.
+ */
+@Injectable()
+export class ConversationAccessPolicy {
+  private readonly rules: ConversationAccessRule[] = [ownerRule, adminRule];
+
+  registerRule(rule: ConversationAccessRule): void {
+    this.rules.push(rule);
+  }
+
+  can(
+    actor: ConversationActor,
+    conversation: ConversationDocument,
+    action: ConversationAction,
+  ): boolean {
+    return this.rules.some((rule) => rule.allows(actor, conversation, action));
+  }
+
+  /**
+   * Throw a 403 unless the actor may perform the action
+   */
+  assert(
+    actor: ConversationActor,
+    conversation: ConversationDocument,
+    action: ConversationAction,
+  ): void {
+    if (!this.can(actor, conversation, action)) {
+      throw new ForbiddenException('Forbidden - Not your conversation');
+    }
+  }
+}
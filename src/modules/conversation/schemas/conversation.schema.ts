@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import type { ConversationSummary } from '../../../common/interfaces/conversation.interface';
 
 export type ConversationDocument = Conversation & Document;
 
@@ -11,12 +12,17 @@ export class Conversation {
   @Prop({ required: true, default: 'general' })
   conversationType: string; // 'general', 'simulation', 'practice'
 
+  @Prop()
+  provider?: string; // LLM provider name, defaults to LLM_PROVIDER
+
   @Prop({ type: Object })
   metadata: {
     level?: string; // 'beginner', 'intermediate', 'advanced'
     topic?: string;
+    topicTags?: string[];
     simulationType?: string;
     userGoals?: string[];
+    locale?: string;
   };
 
   @Prop({ default: true })
@@ -27,6 +33,12 @@ export class Conversation {
 
   @Prop({ type: [{ type: Types.ObjectId, ref: 'Message' }] })
   messages: Types.ObjectId[];
+
+  @Prop({ type: Object })
+  summary?: ConversationSummary; // Older turns, sent in the context layer
+
+  @Prop({ default: false })
+  summaryPending: boolean; // A summary job is queued
 }
 
 export const ConversationSchema = SchemaFactory.createForClass(Conversation);
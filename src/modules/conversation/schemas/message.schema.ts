@@ -1,5 +1,17 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import type {
+  MessageAnalysis,
+  MessageRating,
+  MessageTranscription,
+  PronunciationAnalysis,
+} from '../../../common/interfaces/conversation.interface';
+import type { PromptTemplateRef } from '../../../common/interfaces/prompt.interface';
+import type { ExperimentAssignment } from '../../../common/interfaces/experiment.interface';
+import type {
+  MessageModeration,
+  ResponseIntervention,
+} from '../../../common/interfaces/moderation.interface';
 
 export type MessageDocument = Message & Document;
 
@@ -20,23 +32,41 @@ export class Message {
   @Prop()
   audioUrl?: string;
 
+  @Prop()
+  audioKey?: string; // Storage key of uploaded or synthesized audio
+
   @Prop({ type: Object })
-  analysis?: {
-    grammarErrors?: Array<{
-      error: string;
-      suggestion: string;
-      position: number;
-    }>;
-    vocabularyLevel?: string;
-    suggestions?: string[];
-    score?: number;
-  };
+  transcription?: MessageTranscription;
+
+  @Prop()
+  expectedText?: string; // Drill sentence the learner was asked to say
+
+  @Prop({ type: Object })
+  pronunciation?: PronunciationAnalysis; // Audio messages, set with the analysis
+
+  @Prop({ type: Object })
+  analysis?: MessageAnalysis;
+
+  @Prop({ enum: ['pending', 'ok', 'repaired', 'failed'] })
+  analysisStatus?: string; // User messages only, pending while the job runs
+
+  @Prop({ type: Object })
+  rating?: MessageRating; // Assistant messages only
 
   @Prop({ type: Object })
   metadata?: {
+    provider?: string;
     model?: string;
-    tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    tokensUsed?: number; // Total tokens (prompt + completion)
     processingTime?: number;
+    cancelled?: boolean; // Streaming was stopped by the client
+    speech?: { provider: string; duration?: number }; // Synthesized reply
+    promptTemplates?: PromptTemplateRef[]; // Template versions of the prompt
+    experiments?: ExperimentAssignment[]; // Variants served in the prompt
+    moderation?: MessageModeration; // User messages that carried injection risk
+    guard?: ResponseIntervention; // Tutor replies changed by the response guard
   };
 }
 
@@ -45,3 +75,4 @@ export const MessageSchema = SchemaFactory.createForClass(Message);
 // Indexes
 MessageSchema.index({ conversationId: 1, createdAt: 1 });
 MessageSchema.index({ role: 1 });
+MessageSchema.index({ 'metadata.experiments.experiment': 1 });
@@ -0,0 +1,135 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsArray,
+  IsNumber,
+  IsInt,
+  IsObject,
+  IsBoolean,
+  Min,
+  Max,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PreviewMessageDto } from '../../prompt/dto/preview-prompt.dto';
+
+export class EvaluationAssertionDto {
+  @ApiProperty({
+    enum: ['corrects', 'english', 'no_system_prompt_leak', 'max_length'],
+    example: 'corrects',
+  })
+  @IsIn(['corrects', 'english', 'no_system_prompt_leak', 'max_length'])
+  type: string;
+
+  @ApiProperty({
+    description: 'corrects: correction the reply must contain',
+    example: 'went',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  expected?: string;
+
+  @ApiProperty({
+    description: 'corrects: the learner error, for the report',
+    example: 'goed',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  error?: string;
+
+  @ApiProperty({
+    description: 'english: minimum share of English evidence (default 0.5)',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  minConfidence?: number;
+
+  @ApiProperty({
+    description:
+      'no_system_prompt_leak: words in a row that count as a copy (default 8)',
+    required: false,
+  })
+  @IsInt()
+  @Min(3)
+  @IsOptional()
+  ngramSize?: number;
+
+  @ApiProperty({ description: 'max_length: limit', required: false })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  max?: number;
+
+  @ApiProperty({
+    description: 'max_length: what is counted (default characters)',
+    enum: ['characters', 'words'],
+    required: false,
+  })
+  @IsIn(['characters', 'words'])
+  @IsOptional()
+  unit?: string;
+}
+
+export class CreateEvaluationCaseDto {
+  @ApiProperty({ description: 'Unique case name', example: 'past-tense-goed' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ example: 'default', required: false, default: 'default' })
+  @IsString()
+  @IsOptional()
+  suite?: string;
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    enum: ['general', 'simulation', 'practice'],
+    required: false,
+    default: 'general',
+  })
+  @IsIn(['general', 'simulation', 'practice'])
+  @IsOptional()
+  conversationType?: string;
+
+  @ApiProperty({
+    description: 'Conversation metadata (level, topic, userGoals, ...)',
+    example: { level: 'beginner', topic: 'weekend plans' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Conversation so far, ending with the learner message',
+    type: [PreviewMessageDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PreviewMessageDto)
+  history: PreviewMessageDto[];
+
+  @ApiProperty({ type: [EvaluationAssertionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => EvaluationAssertionDto)
+  assertions: EvaluationAssertionDto[];
+
+  @ApiProperty({ required: false, default: true })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,31 @@
+import { IsString, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RunEvaluationDto {
+  @ApiProperty({
+    description: 'Suite of golden conversations to replay',
+    example: 'default',
+    required: false,
+    default: 'default',
+  })
+  @IsString()
+  @IsOptional()
+  suite?: string;
+
+  @ApiProperty({
+    description: 'LLM provider, e.g. "mock"; defaults to LLM_PROVIDER',
+    example: 'mock',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  provider?: string;
+
+  @ApiProperty({
+    description: "Model to use instead of the provider's default",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  model?: string;
+}
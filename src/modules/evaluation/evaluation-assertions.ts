@@ -0,0 +1,97 @@
+import {
+  EvaluationAssertion,
+  EvaluationAssertionResult,
+} from '../../common/interfaces/evaluation.interface';
+import { CompiledPrompt } from '../../common/interfaces/prompt.interface';
+import {
+  detectLanguage,
+  isEnglish,
+} from '../../common/utils/language-detector';
+import { normalizeWords, sharedNgrams } from '../../common/utils/ngram';
+
+const DEFAULT_LEAK_NGRAM_SIZE = 8;
+const DEFAULT_ENGLISH_CONFIDENCE = 0.5;
+
+/**
+ * Why an assertion cannot be checked, or null when it is complete
+ */
+export function validateAssertion(
+  assertion: EvaluationAssertion,
+): string | null {
+  switch (assertion.type) {
+    case 'corrects':
+      return assertion.expected?.trim()
+        ? null
+        : "'corrects' assertions need the expected correction";
+    case 'max_length':
+      return assertion.max > 0 ? null : "'max_length' assertions need max";
+    case 'english':
+    case 'no_system_prompt_leak':
+      return null;
+    default:
+      return `Unknown assertion type '${(assertion as { type: string }).type}'`;
+  }
+}
+
+/**
+ * Check a tutor reply against one assertion of a golden conversation
+ */
+export function checkAssertion(
+  assertion: EvaluationAssertion,
+  reply: string,
+  prompt: CompiledPrompt,
+): EvaluationAssertionResult {
+  switch (assertion.type) {
+    case 'corrects': {
+      const expected = normalizeWords(assertion.expected).join(' ');
+      const passed = ` ${normalizeWords(reply).join(' ')} `.includes(
+        ` ${expected} `,
+      );
+      const error = assertion.error ? ` for "${assertion.error}"` : '';
+      return {
+        type: assertion.type,
+        passed,
+        message: passed
+          ? `Reply contains the correction "${assertion.expected}"${error}`
+          : `Reply does not contain the correction "${assertion.expected}"${error}`,
+      };
+    }
+
+    case 'english': {
+      const minConfidence =
+        assertion.minConfidence ?? DEFAULT_ENGLISH_CONFIDENCE;
+      const guess = detectLanguage(reply);
+      return {
+        type: assertion.type,
+        passed: isEnglish(reply, minConfidence),
+        message: `Reply language: ${guess.language} (confidence ${guess.confidence})`,
+      };
+    }
+
+    case 'no_system_prompt_leak': {
+      const ngramSize = assertion.ngramSize ?? DEFAULT_LEAK_NGRAM_SIZE;
+      const leaked = sharedNgrams(prompt.systemPrompt, reply, ngramSize);
+      return {
+        type: assertion.type,
+        passed: leaked.length === 0,
+        message:
+          leaked.length === 0
+            ? `No ${ngramSize}-word passage of the system prompt in the reply`
+            : `Reply repeats the system prompt: "${leaked[0]}"${leaked.length > 1 ? ` and ${leaked.length - 1} more passages` : ''}`,
+      };
+    }
+
+    case 'max_length': {
+      const unit = assertion.unit ?? 'characters';
+      const length =
+        unit === 'words'
+          ? (reply.match(/\S+/g) || []).length
+          : reply.trim().length;
+      return {
+        type: assertion.type,
+        passed: length <= assertion.max,
+        message: `Reply has ${length} ${unit} (max ${assertion.max})`,
+      };
+    }
+  }
+}
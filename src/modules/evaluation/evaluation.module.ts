@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EvaluationService } from './evaluation.service';
+import {
+  EvaluationCase,
+  EvaluationCaseSchema,
+} from './schemas/evaluation-case.schema';
+import {
+  EvaluationRun,
+  EvaluationRunSchema,
+} from './schemas/evaluation-run.schema';
+import { PromptModule } from '../prompt/prompt.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: EvaluationCase.name, schema: EvaluationCaseSchema },
+      { name: EvaluationRun.name, schema: EvaluationRunSchema },
+    ]),
+    PromptModule,
+    UsageModule,
+  ],
+  providers: [EvaluationService],
+  exports: [EvaluationService],
+})
+export class EvaluationModule {}
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { ConversationMetadata } from '../../../common/interfaces/conversation.interface';
+import type { EvaluationAssertion } from '../../../common/interfaces/evaluation.interface';
+
+export type EvaluationCaseDocument = EvaluationCase & Document;
+
+/**
+ * Golden conversation: a history ending with a learner message and the
+ * checks the tutor reply has to pass
+ */
+@Schema({ timestamps: true })
+export class EvaluationCase {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ default: 'default' })
+  suite: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ default: 'general', enum: ['general', 'simulation', 'practice'] })
+  conversationType: string;
+
+  @Prop({ type: Object, default: {} })
+  metadata: ConversationMetadata;
+
+  @Prop({ type: [Object], required: true })
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+
+  @Prop({ type: [Object], required: true })
+  assertions: EvaluationAssertion[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const EvaluationCaseSchema =
+  SchemaFactory.createForClass(EvaluationCase);
+
+// Indexes
+EvaluationCaseSchema.index({ suite: 1, isActive: 1 });
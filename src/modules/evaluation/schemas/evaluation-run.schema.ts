@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type {
+  EvaluationCaseResult,
+  EvaluationSummary,
+} from '../../../common/interfaces/evaluation.interface';
+import type {
+  PromptTemplateAuthor,
+  PromptTemplateRef,
+} from '../../../common/interfaces/prompt.interface';
+
+export type EvaluationRunDocument = EvaluationRun & Document;
+
+/**
+ * Report of one replay of a suite, kept to compare template versions
+ */
+@Schema({ timestamps: true })
+export class EvaluationRun {
+  @Prop({ required: true })
+  suite: string;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop()
+  model?: string;
+
+  @Prop({ required: true, enum: ['cli', 'admin'] })
+  triggeredBy: string;
+
+  @Prop({ type: Object })
+  author?: PromptTemplateAuthor; // Admin who started the run
+
+  @Prop({ type: [Object], default: [] })
+  templates: PromptTemplateRef[]; // Every template version used by the cases
+
+  @Prop({ type: Object, required: true })
+  summary: EvaluationSummary;
+
+  @Prop({ type: [Object], default: [] })
+  results: EvaluationCaseResult[];
+
+  @Prop()
+  durationMs?: number;
+
+  createdAt?: Date; // Set by timestamps
+}
+
+export const EvaluationRunSchema = SchemaFactory.createForClass(EvaluationRun);
+
+// Indexes
+EvaluationRunSchema.index({ suite: 1, createdAt: -1 });
@@ -0,0 +1,85 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsNumber,
+  Min,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ExperimentVariantDto {
+  @ApiProperty({ description: 'Variant name', example: 'socratic' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Template body served to this variant. Omit for the control, which uses the stored template',
+    example:
+      'You are a patient English tutor. Ask a guiding question instead of correcting directly. Student level: {{level}}',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  template?: string;
+
+  @ApiProperty({
+    description: 'Relative share of traffic',
+    example: 50,
+    required: false,
+    default: 1,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  weight?: number;
+}
+
+export class CreateExperimentDto {
+  @ApiProperty({
+    description: 'Unique experiment name',
+    example: 'socratic-tutor',
+  })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'What the experiment tests',
+    example: 'Guiding questions instead of direct corrections',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Prompt template the variants replace',
+    example: 'system_tutor_role',
+  })
+  @IsString()
+  templateName: string;
+
+  @ApiProperty({
+    description: 'Whether a user or each conversation keeps its variant',
+    enum: ['user', 'conversation'],
+    required: false,
+    default: 'user',
+  })
+  @IsEnum(['user', 'conversation'])
+  @IsOptional()
+  bucketBy?: string;
+
+  @ApiProperty({
+    description: 'At least two variants with unique names',
+    type: [ExperimentVariantDto],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => ExperimentVariantDto)
+  variants: ExperimentVariantDto[];
+}
@@ -0,0 +1,11 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PromoteExperimentDto {
+  @ApiProperty({
+    description: 'Winning variant; its body becomes the template',
+    example: 'socratic',
+  })
+  @IsString()
+  variant: string;
+}
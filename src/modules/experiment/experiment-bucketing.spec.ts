@@ -0,0 +1,74 @@
+import { ExperimentVariant } from '../../common/interfaces/experiment.interface';
+import { assignVariant } from './experiment-bucketing';
+
+describe('assignVariant', () => {
+  const units = Array.from({ length: 10000 }, (_, index) => `user-${index}`);
+
+  const shares = (experimentName: string, variants: ExperimentVariant[]) => {
+    const counts = new Map<string, number>();
+    units.forEach((unit) => {
+      const variant = assignVariant(experimentName, unit, variants)!;
+      counts.set(variant.name, (counts.get(variant.name) ?? 0) + 1);
+    });
+    return Object.fromEntries(
+      Array.from(counts, ([name, count]) => [name, count / units.length]),
+    );
+  };
+
+  it('gives a unit the same variant every time', () => {
+    const variants = [
+      { name: 'control', weight: 1 },
+      { name: 'friendly', weight: 1 },
+      { name: 'strict', weight: 1 },
+    ];
+
+    units.slice(0, 100).forEach((unit) => {
+      const first = assignVariant('tone', unit, variants);
+      expect(assignVariant('tone', unit, [...variants])).toEqual(first);
+    });
+  });
+
+  it('splits units according to the weights', () => {
+    const result = shares('tone', [
+      { name: 'control', weight: 70 },
+      { name: 'friendly', weight: 20 },
+      { name: 'strict', weight: 10 },
+    ]);
+
+    expect(result.control).toBeCloseTo(0.7, 1);
+    expect(result.friendly).toBeCloseTo(0.2, 1);
+    expect(result.strict).toBeCloseTo(0.1, 1);
+  });
+
+  it('never assigns variants without weight', () => {
+    const result = shares('tone', [
+      { name: 'control', weight: 1 },
+      { name: 'paused', weight: 0 },
+      { name: 'broken', weight: -5 },
+    ]);
+
+    expect(result).toEqual({ control: 1 });
+  });
+
+  it('assigns nothing when no variant has weight', () => {
+    expect(
+      assignVariant('tone', 'user-1', [{ name: 'paused', weight: 0 }]),
+    ).toBeUndefined();
+    expect(assignVariant('tone', 'user-1', [])).toBeUndefined();
+  });
+
+  it('buckets experiments independently', () => {
+    const variants = [
+      { name: 'a', weight: 1 },
+      { name: 'b', weight: 1 },
+    ];
+
+    const agreeing = units.filter(
+      (unit) =>
+        assignVariant('tone', unit, variants)?.name ===
+        assignVariant('length', unit, variants)?.name,
+    ).length;
+
+    expect(agreeing / units.length).toBeCloseTo(0.5, 1);
+  });
+});
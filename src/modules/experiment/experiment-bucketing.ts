@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+import { ExperimentVariant } from '../../common/interfaces/experiment.interface';
+
+/**
+ * Deterministically pick a variant for a user or conversation. The hash of
+ * the experiment name and unit id is mapped onto the cumulative weights, so
+ * the same unit always gets the same variant while the weights are unchanged
+ * and different experiments bucket independently.
+ */
+export function assignVariant(
+  experimentName: string,
+  unitId: string,
+  variants: ExperimentVariant[],
+): ExperimentVariant | undefined {
+  const totalWeight = variants.reduce(
+    (total, variant) => total + Math.max(variant.weight, 0),
+    0,
+  );
+  if (totalWeight <= 0) {
+    return undefined;
+  }
+
+  const hash = createHash('sha256')
+    .update(`${experimentName}:${unitId}`)
+    .digest();
+  // First 48 bits as a fraction in [0, 1)
+  const point = (hash.readUIntBE(0, 6) / 2 ** 48) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += Math.max(variant.weight, 0);
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+  return variants[variants.length - 1];
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExperimentService } from './experiment.service';
+import { Experiment, ExperimentSchema } from './schemas/experiment.schema';
+import {
+  PromptTemplate,
+  PromptTemplateSchema,
+} from '../prompt/schemas/prompt-template.schema';
+import { PromptModule } from '../prompt/prompt.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Experiment.name, schema: ExperimentSchema },
+      { name: PromptTemplate.name, schema: PromptTemplateSchema },
+    ]),
+    PromptModule,
+  ],
+  providers: [ExperimentService],
+  exports: [ExperimentService],
+})
+export class ExperimentModule {}
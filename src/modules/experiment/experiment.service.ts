@@ -0,0 +1,245 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Experiment, ExperimentDocument } from './schemas/experiment.schema';
+import {
+  PromptTemplate,
+  PromptTemplateDocument,
+} from '../prompt/schemas/prompt-template.schema';
+import { PromptService } from '../prompt/prompt.service';
+import { CreateExperimentDto } from './dto/create-experiment.dto';
+import { assignVariant } from './experiment-bucketing';
+import { ExperimentAssignment } from '../../common/interfaces/experiment.interface';
+import {
+  PromptTemplateAuthor,
+  PromptTemplateOverride,
+} from '../../common/interfaces/prompt.interface';
+
+/**
+ * A/B experiments on prompt templates. While an experiment runs, every user
+ * (or conversation) is bucketed into one of its variants and served that
+ * variant's template body.
+ */
+@Injectable()
+export class ExperimentService {
+  private readonly logger = new Logger(ExperimentService.name);
+
+  constructor(
+    @InjectModel(Experiment.name)
+    private experimentModel: Model<ExperimentDocument>,
+    @InjectModel(PromptTemplate.name)
+    private promptTemplateModel: Model<PromptTemplateDocument>,
+    private promptService: PromptService,
+  ) {}
+
+  async listExperiments(): Promise<ExperimentDocument[]> {
+    return this.experimentModel.find().sort({ createdAt: -1 }).exec();
+  }
+
+  async getExperiment(name: string): Promise<ExperimentDocument> {
+    const experiment = await this.experimentModel.findOne({ name }).exec();
+    if (!experiment) {
+      throw new NotFoundException(`Experiment '${name}' not found`);
+    }
+    return experiment;
+  }
+
+  /**
+   * Create a draft experiment. Variant bodies are validated like template
+   * bodies.
+   */
+  async createExperiment(
+    dto: CreateExperimentDto,
+    author?: PromptTemplateAuthor,
+  ): Promise<ExperimentDocument> {
+    if (await this.experimentModel.exists({ name: dto.name }).exec()) {
+      throw new ConflictException(`Experiment '${dto.name}' already exists`);
+    }
+    if (!(await this.promptTemplateModel.exists({ name: dto.templateName }))) {
+      throw new NotFoundException(`Template '${dto.templateName}' not found`);
+    }
+
+    const names = new Set(dto.variants.map((variant) => variant.name));
+    if (names.size !== dto.variants.length) {
+      throw new BadRequestException('Variant names must be unique');
+    }
+    for (const variant of dto.variants) {
+      if (variant.template !== undefined) {
+        this.promptService.validateTemplate(variant.template);
+      }
+    }
+
+    const variants = dto.variants.map((variant) => ({
+      name: variant.name,
+      template: variant.template,
+      weight: variant.weight ?? 1,
+    }));
+    if (variants.every((variant) => variant.weight === 0)) {
+      throw new BadRequestException('At least one variant needs a weight');
+    }
+
+    return this.experimentModel.create({
+      name: dto.name,
+      description: dto.description,
+      templateName: dto.templateName,
+      bucketBy: dto.bucketBy || 'user',
+      variants,
+      createdBy: author && { userId: author.userId, email: author.email },
+    });
+  }
+
+  /**
+   * Start or resume an experiment. A template takes part in one running
+   * experiment at a time.
+   */
+  async startExperiment(name: string): Promise<ExperimentDocument> {
+    const experiment = await this.getExperiment(name);
+    if (experiment.status !== 'draft' && experiment.status !== 'stopped') {
+      throw new BadRequestException(
+        `Experiment '${name}' is ${experiment.status} and cannot be started`,
+      );
+    }
+
+    const conflicting = await this.experimentModel
+      .findOne({ templateName: experiment.templateName, status: 'running' })
+      .exec();
+    if (conflicting) {
+      throw new BadRequestException(
+        `Experiment '${conflicting.name}' is already running on template '${experiment.templateName}'`,
+      );
+    }
+
+    experiment.status = 'running';
+    experiment.startedAt ??= new Date();
+    experiment.endedAt = undefined;
+    await experiment.save();
+
+    this.logger.log(`Started experiment ${name}`);
+    return experiment;
+  }
+
+  async stopExperiment(name: string): Promise<ExperimentDocument> {
+    const experiment = await this.getExperiment(name);
+    if (experiment.status !== 'running') {
+      throw new BadRequestException(`Experiment '${name}' is not running`);
+    }
+
+    experiment.status = 'stopped';
+    experiment.endedAt = new Date();
+    await experiment.save();
+
+    this.logger.log(`Stopped experiment ${name}`);
+    return experiment;
+  }
+
+  /**
+   * End an experiment by making a variant the template. Promoting the
+   * control only ends the experiment.
+   */
+  async promoteVariant(
+    name: string,
+    variantName: string,
+    author?: PromptTemplateAuthor,
+  ): Promise<ExperimentDocument> {
+    const experiment = await this.getExperiment(name);
+    if (experiment.status === 'completed') {
+      throw new BadRequestException(
+        `Experiment '${name}' is already completed`,
+      );
+    }
+
+    const variant = experiment.variants.find((v) => v.name === variantName);
+    if (!variant) {
+      throw new NotFoundException(
+        `Variant '${variantName}' not found in experiment '${name}'`,
+      );
+    }
+
+    if (variant.template !== undefined) {
+      const template = await this.promptService.updateTemplate(
+        experiment.templateName,
+        {
+          template: variant.template,
+          variables: this.promptService.validateTemplate(variant.template),
+        },
+        author,
+        'experiment',
+      );
+      if (!template) {
+        throw new NotFoundException(
+          `Template '${experiment.templateName}' not found`,
+        );
+      }
+    }
+
+    experiment.status = 'completed';
+    experiment.winner = variant.name;
+    experiment.endedAt = new Date();
+    await experiment.save();
+
+    this.logger.log(
+      `Promoted variant ${variant.name} of experiment ${name} to template ${experiment.templateName}`,
+    );
+    return experiment;
+  }
+
+  /**
+   * Delete an experiment. Messages keep the variant they were served.
+   */
+  async deleteExperiment(name: string): Promise<void> {
+    const result = await this.experimentModel.deleteOne({ name }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Experiment '${name}' not found`);
+    }
+  }
+
+  /**
+   * Variants of the running experiments for a turn, and the template bodies
+   * they replace
+   */
+  async assign(unit: { userId: string; conversationId: string }): Promise<{
+    assignments: ExperimentAssignment[];
+    overrides: PromptTemplateOverride[];
+  }> {
+    const experiments = await this.experimentModel
+      .find({ status: 'running' })
+      .exec();
+
+    const assignments: ExperimentAssignment[] = [];
+    const overrides: PromptTemplateOverride[] = [];
+
+    for (const experiment of experiments) {
+      const variant = assignVariant(
+        experiment.name,
+        experiment.bucketBy === 'conversation'
+          ? unit.conversationId
+          : unit.userId,
+        experiment.variants,
+      );
+      if (!variant) {
+        continue;
+      }
+
+      assignments.push({
+        experiment: experiment.name,
+        templateName: experiment.templateName,
+        variant: variant.name,
+      });
+      if (variant.template !== undefined) {
+        overrides.push({
+          templateName: experiment.templateName,
+          template: variant.template,
+          source: `${String(experiment._id)}/${variant.name}`,
+        });
+      }
+    }
+
+    return { assignments, overrides };
+  }
+}
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { ExperimentVariant } from '../../../common/interfaces/experiment.interface';
+import type { PromptTemplateAuthor } from '../../../common/interfaces/prompt.interface';
+
+export type ExperimentDocument = Experiment & Document;
+
+/**
+ * A/B test of alternative bodies for one prompt template
+ */
+@Schema({ timestamps: true })
+export class Experiment {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true })
+  templateName: string;
+
+  @Prop({
+    default: 'draft',
+    enum: ['draft', 'running', 'stopped', 'completed'],
+  })
+  status: string;
+
+  @Prop({ default: 'user', enum: ['user', 'conversation'] })
+  bucketBy: string; // Unit that keeps the same variant
+
+  @Prop({ type: [Object], required: true })
+  variants: ExperimentVariant[];
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  endedAt?: Date;
+
+  @Prop()
+  winner?: string; // Variant promoted to the template
+
+  @Prop({ type: Object })
+  createdBy?: PromptTemplateAuthor;
+}
+
+export const ExperimentSchema = SchemaFactory.createForClass(Experiment);
+
+// Indexes
+ExperimentSchema.index({ status: 1 });
+ExperimentSchema.index({ templateName: 1 });
@@ -1,20 +1,44 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import {
-  GeminiMessage,
-  GeminiResponse,
-  AudioTranscriptionResult,
-} from '../../common/interfaces/gemini.interface';
+  Content,
+  GenerateContentStreamResult,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  GoogleGenerativeAIResponseError,
+  GenerativeModel,
+  ResponseSchema,
+  UsageMetadata,
+} from '@google/generative-ai';
+import {
+  LlmGenerateOptions,
+  LlmJsonSchema,
+  LlmMessage,
+  LlmProvider,
+  LlmResponse,
+  LlmStream,
+  LlmUsage,
+} from '../../common/interfaces/llm.interface';
+import { LlmProviderError } from '../llm/llm-provider.error';
 
 @Injectable()
-export class GeminiService implements OnModuleInit {
+export class GeminiService implements LlmProvider, OnModuleInit {
+  readonly name = 'gemini';
+
   private readonly logger = new Logger(GeminiService.name);
   private genAI: GoogleGenerativeAI;
   private chatModel: GenerativeModel;
-  private audioModel: GenerativeModel;
+  private readonly modelName: string;
 
-  constructor(private configService: ConfigService) {}
+  constructor(private configService: ConfigService) {
+    this.modelName = this.configService.get<string>(
+      'GEMINI_MODEL',
+      'gemini-2.0-flash',
+    );
+  }
 
   onModuleInit() {
     const apiKey = this.configService.get<string>('GEMINI_API_KEY');
@@ -28,43 +52,42 @@ export class GeminiService implements OnModuleInit {
 
     try {
       this.genAI = new GoogleGenerativeAI(apiKey);
-      this.chatModel = this.genAI.getGenerativeModel({ model: 'gemini-pro' });
-      this.audioModel = this.genAI.getGenerativeModel({ model: 'gemini-pro' });
-      this.logger.log('Gemini API initialized successfully');
+      this.chatModel = this.genAI.getGenerativeModel({
+        model: this.modelName,
+      });
+      this.logger.log(`Gemini API initialized with model ${this.modelName}`);
     } catch (error) {
       this.logger.error('Failed to initialize Gemini API', error);
     }
   }
 
   /**
-   * Generate a response from Gemini based on conversation history
+   * Model used when a call does not request a specific one
    */
-  async generateResponse(
-    messages: GeminiMessage[],
-    systemPrompt?: string,
-  ): Promise<GeminiResponse> {
-    if (!this.chatModel) {
-      throw new Error(
-        'Gemini API not initialized. Check your API key configuration.',
-      );
-    }
+  getModel(): string {
+    return this.modelName;
+  }
 
+  /**
+   * Generate a response from Gemini based on conversation history
+   */
+  async generate(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const model = this.getChatModel(options.model);
     const startTime = Date.now();
 
     try {
-      // Build the prompt with system instructions if provided
-      let fullPrompt = '';
-      if (systemPrompt) {
-        fullPrompt = `${systemPrompt}\n\n`;
-      }
-
-      // Add conversation history
-      messages.forEach((msg) => {
-        const role = msg.role === 'user' ? 'User' : 'Assistant';
-        fullPrompt += `${role}: ${msg.parts[0].text}\n`;
+      const { history, prompt } = this.toChatTurns(messages);
+      const chat = model.startChat({
+        history,
+        systemInstruction: this.toSystemInstruction(options.systemInstructions),
       });
 
-      const result = await this.chatModel.generateContent(fullPrompt);
+      const result = await chat.sendMessage(prompt, {
+        signal: options.signal,
+      });
       const response = result.response;
       const text = response.text();
 
@@ -74,130 +97,232 @@ export class GeminiService implements OnModuleInit {
 
       return {
         text,
+        model: options.model || this.modelName,
         processingTime,
-        tokensUsed: 0, // TODO: Get actual token count from Gemini API
+        usage: this.toUsage(response.usageMetadata),
       };
     } catch (error) {
       this.logger.error('Error generating response from Gemini', error);
-      throw new Error(`Failed to generate response: ${error.message}`);
+      throw this.toProviderError(error, 'Failed to generate response');
     }
   }
 
   /**
    * Generate a streaming response from Gemini
    */
-  async generateStreamingResponse(
-    messages: GeminiMessage[],
-    systemPrompt?: string,
-  ): Promise<AsyncGenerator<string>> {
-    if (!this.chatModel) {
-      throw new Error(
-        'Gemini API not initialized. Check your API key configuration.',
-      );
-    }
+  async stream(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmStream> {
+    const model = this.getChatModel(options.model);
+    const startTime = Date.now();
 
     try {
-      let fullPrompt = '';
-      if (systemPrompt) {
-        fullPrompt = `${systemPrompt}\n\n`;
-      }
+      const { history, prompt } = this.toChatTurns(messages);
+      const chat = model.startChat({
+        history,
+        systemInstruction: this.toSystemInstruction(options.systemInstructions),
+      });
 
-      messages.forEach((msg) => {
-        const role = msg.role === 'user' ? 'User' : 'Assistant';
-        fullPrompt += `${role}: ${msg.parts[0].text}\n`;
+      const result = await chat.sendMessageStream(prompt, {
+        signal: options.signal,
       });
 
-      const result = await this.chatModel.generateContentStream(fullPrompt);
+      // Stream errors surface through the chunk iterator
+      result.response.catch(() => undefined);
 
-      return this.streamGenerator(result);
+      return {
+        chunks: this.streamGenerator(result),
+        getResponse: async () => {
+          const response = await result.response;
+          return {
+            text: response.text(),
+            model: options.model || this.modelName,
+            processingTime: Date.now() - startTime,
+            usage: this.toUsage(response.usageMetadata),
+          };
+        },
+      };
     } catch (error) {
       this.logger.error('Error generating streaming response', error);
-      throw new Error(
-        `Failed to generate streaming response: ${error.message}`,
+      throw this.toProviderError(
+        error,
+        'Failed to generate streaming response',
       );
     }
   }
 
-  private async *streamGenerator(result: any): AsyncGenerator<string> {
-    for await (const chunk of result.stream) {
-      const chunkText = chunk.text();
-      yield chunkText;
+  private async *streamGenerator(
+    result: GenerateContentStreamResult,
+  ): AsyncGenerator<string> {
+    try {
+      for await (const chunk of result.stream) {
+        const chunkText = chunk.text();
+        yield chunkText;
+      }
+    } catch (error) {
+      throw this.toProviderError(error, 'Streaming response failed');
     }
   }
 
   /**
-   * Transcribe audio to text using Gemini
-   * Note: Gemini Pro doesn't natively support audio transcription
-   * This is a placeholder for future implementation or integration with other services
+   * Keep the upstream status so callers can decide whether to retry.
+   * Aborts keep the AbortError name callers check for.
    */
-  transcribeAudio(
-    _audioBuffer: Buffer,
-    _mimeType: string,
-  ): Promise<AudioTranscriptionResult> {
-    this.logger.warn('Audio transcription not yet implemented with Gemini API');
-
-    // TODO: Implement audio transcription
-    // Options:
-    // 1. Use Google Cloud Speech-to-Text API
-    // 2. Use Gemini Pro Vision/Audio when available
-    // 3. Use alternative transcription service
-
-    return Promise.reject(
-      new Error(`Audio transcription not yet implemented `),
+  private toProviderError(error: Error, action: string): Error {
+    if (error instanceof GoogleGenerativeAIAbortError) {
+      const abortError = new Error(`${action}: ${error.message}`);
+      abortError.name = 'AbortError';
+      return abortError;
+    }
+
+    if (error instanceof GoogleGenerativeAIFetchError) {
+      return new LlmProviderError(
+        `${action}: ${error.message}`,
+        this.name,
+        error.status,
+      );
+    }
+
+    // Only SDK failures such as dropped connections are worth retrying;
+    // blocked or malformed requests and local errors (invalid history)
+    // fail the same way on every attempt
+    const retryable =
+      error instanceof GoogleGenerativeAIError &&
+      !(
+        error instanceof GoogleGenerativeAIResponseError ||
+        error instanceof GoogleGenerativeAIRequestInputError
+      );
+
+    return new LlmProviderError(
+      `${action}: ${error.message}`,
+      this.name,
+      undefined,
+      retryable,
     );
   }
 
   /**
-   * Analyze text for grammar and vocabulary
+   * Split conversation turns into chat history and the pending user turn.
+   * Gemini requires alternating roles, so consecutive turns of the same
+   * role (e.g. a user message whose reply failed) are merged.
+   */
+  private toChatTurns(messages: LlmMessage[]): {
+    history: Content[];
+    prompt: string;
+  } {
+    const turns: Array<{ role: 'user' | 'model'; texts: string[] }> = [];
+    for (const msg of messages) {
+      const role = msg.role === 'user' ? 'user' : 'model';
+      const previous = turns[turns.length - 1];
+      if (previous?.role === role) {
+        previous.texts.push(msg.content);
+      } else {
+        turns.push({ role, texts: [msg.content] });
+      }
+    }
+
+    const lastTurn = turns.pop();
+    if (!lastTurn || lastTurn.role !== 'user') {
+      throw new Error('Conversation must end with a user message');
+    }
+
+    return {
+      history: turns.map((turn) => ({
+        role: turn.role,
+        parts: [{ text: turn.texts.join('\n\n') }],
+      })),
+      prompt: lastTurn.texts.join('\n\n'),
+    };
+  }
+
+  /**
+   * Map prompt layers onto a single system instruction, one part per layer
    */
-  async analyzeText(
-    text: string,
-    targetLevel: string = 'intermediate',
-  ): Promise<any> {
+  private toSystemInstruction(instructions?: string[]): Content | undefined {
+    const parts = (instructions || [])
+      .filter((text) => text.trim().length > 0)
+      .map((text) => ({ text }));
+
+    return parts.length > 0 ? { role: 'system', parts } : undefined;
+  }
+
+  /**
+   * Map Gemini usage metadata onto provider-agnostic token counts
+   */
+  private toUsage(usageMetadata?: UsageMetadata): LlmUsage {
+    return {
+      promptTokens: usageMetadata?.promptTokenCount ?? 0,
+      completionTokens: usageMetadata?.candidatesTokenCount ?? 0,
+      totalTokens: usageMetadata?.totalTokenCount ?? 0,
+    };
+  }
+
+  /**
+   * Get the chat model, honouring a per-call model override
+   */
+  private getChatModel(modelName?: string): GenerativeModel {
     if (!this.chatModel) {
       throw new Error(
         'Gemini API not initialized. Check your API key configuration.',
       );
     }
 
-    const analysisPrompt = `
-You are an English language teacher. Analyze the following text for grammar errors and provide suggestions.
-Target level: ${targetLevel}
+    if (!modelName || modelName === this.modelName) {
+      return this.chatModel;
+    }
 
-Text: "${text}"
+    return this.genAI.getGenerativeModel({ model: modelName });
+  }
 
-Provide a JSON response with the following structure:
-{
-  "grammarErrors": [{ "error": "description", "suggestion": "correction", "position": 0 }],
-  "vocabularyLevel": "beginner|intermediate|advanced",
-  "suggestions": ["suggestion 1", "suggestion 2"],
-  "score": 0-100
-}
-`;
+  /**
+   * Generate JSON constrained to a response schema
+   */
+  async generateStructured(
+    prompt: string,
+    schema: LlmJsonSchema,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const model = this.getChatModel(options.model);
+    const startTime = Date.now();
 
     try {
-      const result = await this.chatModel.generateContent(analysisPrompt);
+      const result = await model.generateContent(
+        {
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          systemInstruction: this.toSystemInstruction(
+            options.systemInstructions,
+          ),
+          generationConfig: {
+            responseMimeType: 'application/json',
+            responseSchema: schema as ResponseSchema,
+          },
+        },
+        { signal: options.signal },
+      );
       const response = result.response;
-      const text = response.text();
-
-      // Extract JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
 
       return {
-        grammarErrors: [],
-        vocabularyLevel: targetLevel,
-        suggestions: [],
-        score: 0,
+        text: response.text(),
+        model: options.model || this.modelName,
+        processingTime: Date.now() - startTime,
+        usage: this.toUsage(response.usageMetadata),
       };
     } catch (error) {
-      this.logger.error('Error analyzing text', error);
-      throw new Error(`Failed to analyze text: ${error.message}`);
+      this.logger.error('Error generating structured output', error);
+      throw this.toProviderError(error, 'Failed to generate structured output');
     }
   }
 
+  /**
+   * Count tokens for a piece of text with the configured model
+   */
+  async countTokens(text: string): Promise<number> {
+    const model = this.getChatModel();
+    const result = await model.countTokens(text);
+    return result.totalTokens;
+  }
+
   /**
    * Check if the service is properly initialized
    */
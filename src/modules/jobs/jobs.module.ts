@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Job, JobSchema } from './schemas/job.schema';
+import { JOB_STORE, JobsService } from './jobs.service';
+import { MongoJobStore } from './stores/mongo-job.store';
+import { MemoryJobStore } from './stores/memory-job.store';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: Job.name, schema: JobSchema }])],
+  providers: [
+    MongoJobStore,
+    MemoryJobStore,
+    {
+      // JOBS_STORE=memory keeps jobs in process (development and tests)
+      provide: JOB_STORE,
+      useFactory: (
+        configService: ConfigService,
+        mongoStore: MongoJobStore,
+        memoryStore: MemoryJobStore,
+      ) =>
+        configService.get<string>('JOBS_STORE', 'mongo') === 'memory'
+          ? memoryStore
+          : mongoStore,
+      inject: [ConfigService, MongoJobStore, MemoryJobStore],
+    },
+    JobsService,
+  ],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,158 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EnqueueJobOptions,
+  JobHandler,
+  JobRecord,
+} from '../../common/interfaces/job.interface';
+import type { JobStore } from '../../common/interfaces/job.interface';
+
+export const JOB_STORE = 'JOB_STORE';
+
+/**
+ * In-process job queue. Handlers register by name, jobs are persisted in
+ * the configured store and polled by this process; failed attempts are
+ * retried with exponential backoff until maxAttempts is reached.
+ */
+@Injectable()
+export class JobsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly staleAfterMs: number;
+  private readonly defaultMaxAttempts: number;
+  private pollTimer?: NodeJS.Timeout;
+  private running = 0;
+  private draining = false;
+  private stopped = true;
+
+  constructor(
+    @Inject(JOB_STORE) private store: JobStore,
+    private configService: ConfigService,
+  ) {
+    this.concurrency = Number(this.configService.get('JOBS_CONCURRENCY', 2));
+    this.pollIntervalMs = Number(
+      this.configService.get('JOBS_POLL_INTERVAL_MS', 1000),
+    );
+    this.retryBaseDelayMs = Number(
+      this.configService.get('JOBS_RETRY_BASE_DELAY_MS', 2000),
+    );
+    this.staleAfterMs = Number(
+      this.configService.get('JOBS_STALE_AFTER_MS', 5 * 60 * 1000),
+    );
+    this.defaultMaxAttempts = Number(
+      this.configService.get('JOBS_MAX_ATTEMPTS', 3),
+    );
+  }
+
+  /**
+   * Start polling once every module has registered its handlers
+   */
+  async onApplicationBootstrap() {
+    const released = await this.store.releaseStale(
+      new Date(Date.now() - this.staleAfterMs),
+    );
+    if (released > 0) {
+      this.logger.warn(`Returned ${released} stale jobs to the queue`);
+    }
+
+    this.stopped = false;
+    this.pollTimer = setInterval(() => void this.drain(), this.pollIntervalMs);
+    this.logger.log(
+      `Job queue started (handlers: ${Array.from(this.handlers.keys()).join(', ') || 'none'})`,
+    );
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearInterval(this.pollTimer);
+  }
+
+  registerHandler<T>(name: string, handler: JobHandler<T>): void {
+    this.handlers.set(name, handler);
+  }
+
+  async enqueue<T>(
+    name: string,
+    payload: T,
+    options: EnqueueJobOptions = {},
+  ): Promise<JobRecord<T>> {
+    const job = await this.store.add(name, payload, {
+      maxAttempts: options.maxAttempts ?? this.defaultMaxAttempts,
+      runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+    });
+
+    // Start right away instead of waiting for the next poll
+    setImmediate(() => void this.drain());
+
+    return job;
+  }
+
+  getStats() {
+    return this.store.countByStatus();
+  }
+
+  /**
+   * Claim and start due jobs until the concurrency limit is reached
+   */
+  private async drain(): Promise<void> {
+    if (this.stopped || this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      while (this.running < this.concurrency) {
+        const job = await this.store.claimNext(
+          Array.from(this.handlers.keys()),
+          new Date(),
+        );
+        if (!job) {
+          break;
+        }
+
+        this.running++;
+        void this.run(job).finally(() => {
+          this.running--;
+          setImmediate(() => void this.drain());
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to claim jobs', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run(job: JobRecord): Promise<void> {
+    const handler = this.handlers.get(job.name)!;
+
+    try {
+      await handler(job.payload, job);
+      await this.store.complete(job.id);
+    } catch (error) {
+      const retry = job.attempts < job.maxAttempts;
+      const retryAt = retry
+        ? new Date(Date.now() + this.retryBaseDelayMs * 2 ** (job.attempts - 1))
+        : undefined;
+
+      this.logger.warn(
+        `Job ${job.name} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})${retry ? `, retrying at ${retryAt!.toISOString()}` : ''}: ${error.message}`,
+      );
+
+      await this.store
+        .fail(job.id, error.message, retryAt)
+        .catch((storeError) =>
+          this.logger.error(`Failed to update job ${job.id}`, storeError),
+        );
+    }
+  }
+}
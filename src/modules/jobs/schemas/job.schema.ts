@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type JobDocument = Job & Document;
+
+@Schema({ timestamps: true })
+export class Job {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Object, default: {} })
+  payload: Record<string, any>;
+
+  @Prop({
+    required: true,
+    enum: ['pending', 'running', 'completed', 'failed'],
+    default: 'pending',
+  })
+  status: string;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ default: 3 })
+  maxAttempts: number;
+
+  @Prop({ required: true })
+  runAt: Date;
+
+  @Prop()
+  lockedAt?: Date; // When the running attempt was claimed
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  lastError?: string;
+}
+
+export const JobSchema = SchemaFactory.createForClass(Job);
+
+// Indexes
+JobSchema.index({ status: 1, name: 1, runAt: 1 });
+JobSchema.index({ status: 1, lockedAt: 1 });
+// Completed jobs are kept for a week
+JobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  JobRecord,
+  JobStatus,
+  JobStore,
+} from '../../../common/interfaces/job.interface';
+
+/**
+ * Process-local store for development and tests; jobs are lost on restart
+ */
+@Injectable()
+export class MemoryJobStore implements JobStore {
+  private readonly jobs = new Map<
+    string,
+    JobRecord & { lockedAt?: Date; completedAt?: Date }
+  >();
+
+  add(
+    name: string,
+    payload: unknown,
+    options: { maxAttempts: number; runAt: Date },
+  ): Promise<JobRecord> {
+    const job = {
+      id: randomUUID(),
+      name,
+      payload,
+      status: 'pending' as JobStatus,
+      attempts: 0,
+      maxAttempts: options.maxAttempts,
+      runAt: options.runAt,
+    };
+    this.jobs.set(job.id, job);
+
+    return Promise.resolve({ ...job });
+  }
+
+  claimNext(names: string[], now: Date): Promise<JobRecord | null> {
+    const job = Array.from(this.jobs.values())
+      .filter(
+        (candidate) =>
+          names.includes(candidate.name) &&
+          candidate.status === 'pending' &&
+          candidate.runAt <= now,
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+
+    if (!job) {
+      return Promise.resolve(null);
+    }
+
+    job.status = 'running';
+    job.attempts++;
+    job.lockedAt = now;
+
+    return Promise.resolve({ ...job });
+  }
+
+  complete(id: string): Promise<void> {
+    // Finished jobs are not kept in memory
+    this.jobs.delete(id);
+    return Promise.resolve();
+  }
+
+  fail(id: string, error: string, retryAt?: Date): Promise<void> {
+    const job = this.jobs.get(id);
+
+    if (job) {
+      job.status = retryAt ? 'pending' : 'failed';
+      job.lastError = error;
+      job.runAt = retryAt || job.runAt;
+      job.lockedAt = undefined;
+    }
+
+    return Promise.resolve();
+  }
+
+  releaseStale(olderThan: Date): Promise<number> {
+    let released = 0;
+
+    this.jobs.forEach((job) => {
+      if (
+        job.status === 'running' &&
+        job.lockedAt &&
+        job.lockedAt < olderThan
+      ) {
+        job.status = 'pending';
+        job.lockedAt = undefined;
+        released++;
+      }
+    });
+
+    return Promise.resolve(released);
+  }
+
+  countByStatus(): Promise<Record<JobStatus, number>> {
+    const counts: Record<JobStatus, number> = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+    };
+    this.jobs.forEach((job) => counts[job.status]++);
+
+    return Promise.resolve(counts);
+  }
+}
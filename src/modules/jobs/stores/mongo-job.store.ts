@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Job, JobDocument } from '../schemas/job.schema';
+import {
+  JobRecord,
+  JobStatus,
+  JobStore,
+} from '../../../common/interfaces/job.interface';
+
+/**
+ * Durable store: pending jobs survive restarts and can be shared by
+ * several API instances
+ */
+@Injectable()
+export class MongoJobStore implements JobStore {
+  constructor(@InjectModel(Job.name) private jobModel: Model<JobDocument>) {}
+
+  async add(
+    name: string,
+    payload: unknown,
+    options: { maxAttempts: number; runAt: Date },
+  ): Promise<JobRecord> {
+    const job = await new this.jobModel({
+      name,
+      payload,
+      status: 'pending',
+      maxAttempts: options.maxAttempts,
+      runAt: options.runAt,
+    }).save();
+
+    return this.toRecord(job);
+  }
+
+  async claimNext(names: string[], now: Date): Promise<JobRecord | null> {
+    const job = await this.jobModel
+      .findOneAndUpdate(
+        { name: { $in: names }, status: 'pending', runAt: { $lte: now } },
+        { $set: { status: 'running', lockedAt: now }, $inc: { attempts: 1 } },
+        { sort: { runAt: 1 }, new: true },
+      )
+      .exec();
+
+    return job ? this.toRecord(job) : null;
+  }
+
+  async complete(id: string): Promise<void> {
+    await this.jobModel
+      .findByIdAndUpdate(id, {
+        status: 'completed',
+        completedAt: new Date(),
+        $unset: { lockedAt: 1 },
+      })
+      .exec();
+  }
+
+  async fail(id: string, error: string, retryAt?: Date): Promise<void> {
+    await this.jobModel
+      .findByIdAndUpdate(id, {
+        status: retryAt ? 'pending' : 'failed',
+        lastError: error,
+        ...(retryAt ? { runAt: retryAt } : {}),
+        $unset: { lockedAt: 1 },
+      })
+      .exec();
+  }
+
+  async releaseStale(olderThan: Date): Promise<number> {
+    const result = await this.jobModel
+      .updateMany(
+        { status: 'running', lockedAt: { $lt: olderThan } },
+        { status: 'pending', $unset: { lockedAt: 1 } },
+      )
+      .exec();
+
+    return result.modifiedCount;
+  }
+
+  async countByStatus(): Promise<Record<JobStatus, number>> {
+    const counts = await this.jobModel.aggregate([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    return counts.reduce((acc, { _id, count }) => ({ ...acc, [_id]: count }), {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+    });
+  }
+
+  private toRecord(job: JobDocument): JobRecord {
+    return {
+      id: (job._id as any).toString(),
+      name: job.name,
+      payload: job.payload,
+      status: job.status as JobStatus,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
+      lastError: job.lastError,
+    };
+  }
+}
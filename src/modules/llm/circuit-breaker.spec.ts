@@ -0,0 +1,103 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const failure = new Error('503 Service Unavailable');
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    breaker = new CircuitBreaker('mock:mock-tutor', {
+      failureThreshold: 3,
+      resetTimeoutMs: 30000,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure(failure);
+    }
+  };
+
+  it('opens after consecutive failures reach the threshold', () => {
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+
+    fail(1);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getSnapshot()).toEqual({
+      name: 'mock:mock-tutor',
+      state: 'open',
+      consecutiveFailures: 3,
+      lastFailureAt: new Date('2026-01-01T00:00:00Z'),
+      lastError: '503 Service Unavailable',
+      openedAt: new Date('2026-01-01T00:00:00Z'),
+      retryAt: new Date('2026-01-01T00:00:30Z'),
+    });
+  });
+
+  it('resets the count on success', () => {
+    fail(2);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot().consecutiveFailures).toBe(2);
+  });
+
+  it('lets a single trial call through once the reset timeout expires', () => {
+    fail(3);
+    jest.advanceTimersByTime(29999);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('closes when the trial call succeeds', () => {
+    fail(3);
+    jest.advanceTimersByTime(30000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot()).toMatchObject({
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+    });
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('opens again for another timeout when the trial call fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(30000);
+    breaker.tryAcquire();
+    breaker.recordFailure(failure);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot().retryAt).toEqual(
+      new Date('2026-01-01T00:01:00Z'),
+    );
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('frees the trial slot when the trial call is released', () => {
+    fail(3);
+    jest.advanceTimersByTime(30000);
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
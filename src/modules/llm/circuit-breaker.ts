@@ -0,0 +1,105 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before opening
+  resetTimeoutMs: number; // Time spent open before a trial call is allowed
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  openedAt: Date | null;
+  retryAt: Date | null;
+}
+
+/**
+ * Consecutive-failure circuit breaker. While open every call is rejected
+ * immediately; after the reset timeout a single trial call decides whether
+ * the circuit closes again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+  private openedAt: Date | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+  ) {}
+
+  /**
+   * Whether a call may go through now. Moves an expired open circuit to
+   * half-open and lets exactly one trial call pass.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt!.getTime() < this.options.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date();
+    this.lastError = error.message;
+    this.trialInFlight = false;
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  /**
+   * Release a trial slot without counting the call either way
+   * (e.g. the caller cancelled it)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      openedAt: this.openedAt,
+      retryAt: this.openedAt
+        ? new Date(this.openedAt.getTime() + this.options.resetTimeoutMs)
+        : null,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { CircuitBreakerSnapshot } from './circuit-breaker';
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Failure reported by an LLM backend, keeping the upstream HTTP status so
+ * callers can tell transient errors from permanent ones. Without a status
+ * the error is only retried when the provider says so.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly status?: number,
+    readonly retryable: boolean = status !== undefined &&
+      RETRYABLE_STATUSES.includes(status),
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export class LlmTimeoutError extends LlmProviderError {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`, provider, 408);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+/**
+ * Raised without calling the provider while its circuit is open
+ */
+export class LlmCircuitOpenError extends LlmProviderError {
+  constructor(readonly circuit: CircuitBreakerSnapshot) {
+    super(
+      `Circuit for ${circuit.name} is ${circuit.state}, last error: ${circuit.lastError}`,
+      circuit.name,
+      503,
+      false,
+    );
+    this.name = 'LlmCircuitOpenError';
+  }
+}
+
+/**
+ * Whether retrying the same call may succeed. Caller cancellations, client
+ * errors (bad request, auth, safety blocks) and local errors without a
+ * status (invalid history, missing configuration) are final.
+ */
+export function isRetryableLlmError(error: Error): boolean {
+  if (error.name === 'AbortError') {
+    return false;
+  }
+  if (error instanceof LlmProviderError) {
+    return error.retryable;
+  }
+
+  const status = (error as { status?: number }).status;
+  return status !== undefined && RETRYABLE_STATUSES.includes(status);
+}
@@ -0,0 +1,180 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider } from '../../common/interfaces/llm.interface';
+import { CircuitBreaker, CircuitBreakerSnapshot } from './circuit-breaker';
+import {
+  LlmResilienceOptions,
+  LlmTarget,
+  ResilientLlmProvider,
+} from './resilient-llm.provider';
+
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
+
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly logger = new Logger(LlmProviderRegistry.name);
+  private readonly providers = new Map<string, LlmProvider>();
+  private readonly resilientProviders = new Map<string, ResilientLlmProvider>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly defaultProviderName: string;
+  private readonly fallbackChain: Array<{ provider: string; model?: string }>;
+  private readonly resilienceOptions: LlmResilienceOptions;
+
+  constructor(
+    @Inject(LLM_PROVIDERS) providers: LlmProvider[],
+    private configService: ConfigService,
+  ) {
+    providers.forEach((provider) =>
+      this.providers.set(provider.name, provider),
+    );
+
+    this.defaultProviderName = this.configService.get<string>(
+      'LLM_PROVIDER',
+      'gemini',
+    );
+
+    if (!this.providers.has(this.defaultProviderName)) {
+      this.logger.warn(
+        `Default LLM provider '${this.defaultProviderName}' is not registered. Available: ${this.getProviderNames().join(', ')}`,
+      );
+    }
+
+    this.resilienceOptions = {
+      timeoutMs: Number(this.configService.get('LLM_TIMEOUT_MS', 30000)),
+      maxRetries: Number(this.configService.get('LLM_MAX_RETRIES', 2)),
+      retryBaseDelayMs: Number(
+        this.configService.get('LLM_RETRY_BASE_DELAY_MS', 500),
+      ),
+      retryMaxDelayMs: Number(
+        this.configService.get('LLM_RETRY_MAX_DELAY_MS', 8000),
+      ),
+    };
+
+    this.fallbackChain = this.parseFallbackChain(
+      this.configService.get<string>('LLM_FALLBACK_CHAIN', ''),
+    );
+
+    // Create every breaker up front so health checks report all of them
+    this.getProviderNames().forEach((providerName) =>
+      this.resolve(providerName),
+    );
+  }
+
+  /**
+   * Resolve a provider by name, falling back to the environment default.
+   * Calls go through timeouts, retries, the circuit breaker and the
+   * configured fallback chain.
+   */
+  resolve(name?: string): ResilientLlmProvider {
+    const providerName = name || this.defaultProviderName;
+    const provider = this.providers.get(providerName);
+
+    if (!provider) {
+      throw new Error(`LLM provider '${providerName}' is not registered`);
+    }
+
+    let resilientProvider = this.resilientProviders.get(providerName);
+    if (!resilientProvider) {
+      resilientProvider = new ResilientLlmProvider(
+        this.getTarget(provider),
+        this.getFallbackTargets(provider),
+        this.resilienceOptions,
+        (model) => this.getTarget(provider, model),
+      );
+      this.resilientProviders.set(providerName, resilientProvider);
+    }
+
+    return resilientProvider;
+  }
+
+  /**
+   * Get the provider configured for this environment
+   */
+  getDefault(): ResilientLlmProvider {
+    return this.resolve();
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  list(): LlmProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * State of every circuit breaker created so far
+   */
+  getCircuitBreakers(): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.values()).map((breaker) =>
+      breaker.getSnapshot(),
+    );
+  }
+
+  getFallbackChain(): string[] {
+    return this.fallbackChain.map(({ provider, model }) =>
+      model ? `${provider}:${model}` : provider,
+    );
+  }
+
+  private getTarget(provider: LlmProvider, model?: string): LlmTarget {
+    const key = `${provider.name}:${model || provider.getModel()}`;
+
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, {
+        failureThreshold: Number(
+          this.configService.get('LLM_BREAKER_FAILURE_THRESHOLD', 5),
+        ),
+        resetTimeoutMs: Number(
+          this.configService.get('LLM_BREAKER_RESET_MS', 30000),
+        ),
+      });
+      this.breakers.set(key, breaker);
+    }
+
+    return { provider, model, breaker };
+  }
+
+  /**
+   * Fallback targets for a primary provider, skipping the primary itself
+   */
+  private getFallbackTargets(primary: LlmProvider): LlmTarget[] {
+    const primaryKey = this.getTarget(primary).breaker.name;
+
+    return this.fallbackChain
+      .map(({ provider, model }) =>
+        this.getTarget(this.providers.get(provider)!, model),
+      )
+      .filter((target) => target.breaker.name !== primaryKey);
+  }
+
+  /**
+   * Parse "provider[:model],provider[:model]" entries
+   */
+  private parseFallbackChain(
+    chain: string,
+  ): Array<{ provider: string; model?: string }> {
+    return chain
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map((entry) => {
+        const [provider, ...model] = entry.split(':');
+        return { provider, model: model.join(':') || undefined };
+      })
+      .filter(({ provider }) => {
+        if (!this.providers.has(provider)) {
+          this.logger.warn(
+            `Ignoring unknown provider '${provider}' in LLM_FALLBACK_CHAIN`,
+          );
+          return false;
+        }
+        return true;
+      });
+  }
+}
@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class LlmUnavailableException extends HttpException {
+  constructor(
+    readonly attempted: string[],
+    readonly reason: string,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        error: 'LLM Unavailable',
+        message:
+          'The tutor is temporarily unavailable, please try again shortly',
+      },
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+  }
+}
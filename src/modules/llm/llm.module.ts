@@ -0,0 +1,41 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeminiModule } from '../gemini/gemini.module';
+import { GeminiService } from '../gemini/gemini.service';
+import { LlmProvider } from '../../common/interfaces/llm.interface';
+import { LLM_PROVIDERS, LlmProviderRegistry } from './llm-provider.registry';
+import { MockLlmService } from './mock-llm.service';
+
+@Global()
+@Module({
+  imports: [GeminiModule],
+  providers: [
+    {
+      // Add new backends here to make them selectable through LLM_PROVIDER
+      provide: LLM_PROVIDERS,
+      useFactory: (
+        configService: ConfigService,
+        gemini: GeminiService,
+        mock: MockLlmService,
+      ) => {
+        const providers: LlmProvider[] = [gemini];
+
+        // Canned replies cost nothing, so production only offers the mock
+        // when it is the configured provider
+        if (
+          configService.get<string>('NODE_ENV') !== 'production' ||
+          configService.get<string>('LLM_PROVIDER') === 'mock'
+        ) {
+          providers.push(mock);
+        }
+
+        return providers;
+      },
+      inject: [ConfigService, GeminiService, MockLlmService],
+    },
+    MockLlmService,
+    LlmProviderRegistry,
+  ],
+  exports: [LlmProviderRegistry, MockLlmService],
+})
+export class LlmModule {}
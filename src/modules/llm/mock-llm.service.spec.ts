@@ -0,0 +1,35 @@
+import { ConfigService } from '@nestjs/config';
+import { MockLlmService } from './mock-llm.service';
+
+describe('MockLlmService', () => {
+  let service: MockLlmService;
+
+  beforeEach(() => {
+    service = new MockLlmService(new ConfigService({}));
+  });
+
+  it('matches fixtures case-insensitively', async () => {
+    service.loadFixtures({
+      replies: [{ match: 'HELLO', reply: 'Hi! How are you?' }],
+      defaultReply: 'Tell me more.',
+    });
+
+    await expect(
+      service.generate([{ role: 'user', content: 'hello tutor' }]),
+    ).resolves.toMatchObject({ text: 'Hi! How are you?' });
+    await expect(
+      service.generate([{ role: 'user', content: 'good morning' }]),
+    ).resolves.toMatchObject({ text: 'Tell me more.' });
+  });
+
+  it('keeps only the most recent calls', async () => {
+    for (let i = 0; i < 105; i++) {
+      await service.generate([{ role: 'user', content: `message ${i}` }]);
+    }
+
+    const calls = service.getCalls();
+    expect(calls).toHaveLength(100);
+    expect(calls[0].input).toBe('message 5');
+    expect(calls.at(-1)?.input).toBe('message 104');
+  });
+});
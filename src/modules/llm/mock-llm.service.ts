@@ -0,0 +1,291 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import {
+  LlmGenerateOptions,
+  LlmJsonSchema,
+  LlmMessage,
+  LlmProvider,
+  LlmResponse,
+  LlmStream,
+} from '../../common/interfaces/llm.interface';
+import { MessageAnalysis } from '../../common/interfaces/conversation.interface';
+import {
+  estimateTokens,
+  estimateUsage,
+} from '../../common/utils/token-estimator';
+import { LlmProviderError } from './llm-provider.error';
+
+export interface MockLlmReply {
+  match?: string; // Case-insensitive substring of the input; omit to match anything
+  reply?: string;
+  chunks?: string[]; // Explicit streaming chunks, defaults to word-by-word
+  analysis?: MessageAnalysis;
+  structuredOutput?: string; // Raw structured reply, e.g. to simulate invalid JSON
+  latencyMs?: number;
+  chunkDelayMs?: number;
+  error?: string; // Fail the call with this message
+  errorStatus?: number; // Upstream status of the failure, 503 (retryable) by default
+}
+
+export interface MockLlmFixtures {
+  replies?: MockLlmReply[];
+  defaultReply?: string;
+  defaultAnalysis?: MessageAnalysis;
+  latencyMs?: number;
+}
+
+export interface MockLlmCall {
+  operation: 'generate' | 'stream' | 'structured';
+  input: string;
+  systemInstructions?: string[];
+  model: string;
+}
+
+// Oldest calls are dropped past this, the mock can serve real traffic
+const MAX_RECORDED_CALLS = 100;
+
+/**
+ * Deterministic, offline LLM provider driven by fixtures.
+ * Select it with LLM_PROVIDER=mock; fixtures load from MOCK_LLM_FIXTURES.
+ */
+@Injectable()
+export class MockLlmService implements LlmProvider, OnModuleInit {
+  readonly name = 'mock';
+
+  private readonly logger = new Logger(MockLlmService.name);
+  private readonly modelName = 'mock-tutor';
+  private fixtures: MockLlmFixtures = {};
+  private scriptedReplies: MockLlmReply[] = [];
+  private calls: MockLlmCall[] = [];
+
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    const fixturesPath = this.configService.get<string>('MOCK_LLM_FIXTURES');
+
+    if (fixturesPath) {
+      try {
+        this.loadFixtures(JSON.parse(readFileSync(fixturesPath, 'utf8')));
+        this.logger.log(`Loaded mock LLM fixtures from ${fixturesPath}`);
+      } catch (error) {
+        this.logger.error(
+          `Failed to load mock LLM fixtures from ${fixturesPath}`,
+          error,
+        );
+      }
+    }
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  getModel(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Replace the active fixtures
+   */
+  loadFixtures(fixtures: MockLlmFixtures): void {
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * Queue a one-off reply, consumed before fixtures are matched
+   */
+  enqueueReply(reply: MockLlmReply): void {
+    this.scriptedReplies.push(reply);
+  }
+
+  /**
+   * Calls received since the last reset (up to the last 100), oldest first
+   */
+  getCalls(): MockLlmCall[] {
+    return [...this.calls];
+  }
+
+  reset(): void {
+    this.fixtures = {};
+    this.scriptedReplies = [];
+    this.calls = [];
+  }
+
+  async generate(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const startTime = Date.now();
+    const input = this.getLastUserContent(messages);
+    const fixture = await this.play('generate', input, options);
+    const text = this.getReplyText(fixture, input);
+
+    return {
+      text,
+      model: options.model || this.modelName,
+      processingTime: Date.now() - startTime,
+      usage: estimateUsage(this.getPromptParts(messages, options), text),
+    };
+  }
+
+  async stream(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmStream> {
+    const startTime = Date.now();
+    const input = this.getLastUserContent(messages);
+    const fixture = await this.play('stream', input, options);
+    const text = this.getReplyText(fixture, input);
+    const chunks = fixture?.chunks || text.match(/\S+\s*/g) || [];
+
+    return {
+      chunks: this.streamGenerator(
+        chunks,
+        fixture?.chunkDelayMs ?? 0,
+        options.signal,
+      ),
+      getResponse: () =>
+        Promise.resolve({
+          text,
+          model: options.model || this.modelName,
+          processingTime: Date.now() - startTime,
+          usage: estimateUsage(this.getPromptParts(messages, options), text),
+        }),
+    };
+  }
+
+  async generateStructured(
+    prompt: string,
+    _schema: LlmJsonSchema,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const startTime = Date.now();
+    const fixture = await this.play('structured', prompt, options);
+    const text =
+      fixture?.structuredOutput ??
+      JSON.stringify(
+        fixture?.analysis ||
+          this.fixtures.defaultAnalysis || {
+            grammarErrors: [],
+            vocabularyLevel: 'intermediate',
+            suggestions: [],
+            score: 100,
+          },
+      );
+
+    return {
+      text,
+      model: options.model || this.modelName,
+      processingTime: Date.now() - startTime,
+      usage: estimateUsage(
+        [...(options.systemInstructions || []), prompt],
+        text,
+      ),
+    };
+  }
+
+  countTokens(text: string): Promise<number> {
+    return Promise.resolve(estimateTokens(text));
+  }
+
+  private getPromptParts(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions,
+  ): string[] {
+    return [
+      ...(options.systemInstructions || []),
+      ...messages.map((msg) => msg.content),
+    ];
+  }
+
+  /**
+   * Record the call, pick the matching fixture and apply latency/failures
+   */
+  private async play(
+    operation: MockLlmCall['operation'],
+    input: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<MockLlmReply | undefined> {
+    this.calls.push({
+      operation,
+      input,
+      systemInstructions: options.systemInstructions,
+      model: options.model || this.modelName,
+    });
+    if (this.calls.length > MAX_RECORDED_CALLS) {
+      this.calls.shift();
+    }
+
+    const fixture = this.scriptedReplies.shift() || this.findFixture(input);
+
+    const latency = fixture?.latencyMs ?? this.getDefaultLatency();
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    if (fixture?.error) {
+      throw new LlmProviderError(
+        fixture.error,
+        this.name,
+        fixture.errorStatus ?? 503,
+      );
+    }
+
+    return fixture;
+  }
+
+  private findFixture(input: string): MockLlmReply | undefined {
+    const normalizedInput = input.toLowerCase();
+
+    return this.fixtures.replies?.find(
+      (reply) =>
+        !reply.match || normalizedInput.includes(reply.match.toLowerCase()),
+    );
+  }
+
+  private getReplyText(fixture: MockLlmReply | undefined, input: string) {
+    if (fixture?.reply !== undefined) {
+      return fixture.reply;
+    }
+    if (fixture?.chunks) {
+      return fixture.chunks.join('');
+    }
+    return (
+      this.fixtures.defaultReply ||
+      `You said: "${input}". That's a good start, tell me more!`
+    );
+  }
+
+  private getDefaultLatency(): number {
+    return (
+      this.fixtures.latencyMs ??
+      Number(this.configService.get('MOCK_LLM_LATENCY_MS', 0))
+    );
+  }
+
+  private getLastUserContent(messages: LlmMessage[]): string {
+    const lastUserMessage = [...messages]
+      .reverse()
+      .find((msg) => msg.role === 'user');
+    return lastUserMessage?.content || '';
+  }
+
+  private async *streamGenerator(
+    chunks: string[],
+    chunkDelayMs: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    for (const chunk of chunks) {
+      if (chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, chunkDelayMs));
+      }
+      if (signal?.aborted) {
+        const abortError = new Error('Mock generation aborted');
+        abortError.name = 'AbortError';
+        throw abortError;
+      }
+      yield chunk;
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { getEventListeners } from 'events';
+import {
+  LlmGenerateOptions,
+  LlmProvider,
+  LlmResponse,
+} from '../../common/interfaces/llm.interface';
+import { CircuitBreaker } from './circuit-breaker';
+import { LlmProviderError, LlmTimeoutError } from './llm-provider.error';
+import { LlmUnavailableException } from './llm-unavailable.exception';
+import {
+  LlmResilienceOptions,
+  LlmTarget,
+  ResilientLlmProvider,
+} from './resilient-llm.provider';
+
+const OPTIONS: LlmResilienceOptions = {
+  timeoutMs: 1000,
+  maxRetries: 2,
+  retryBaseDelayMs: 0,
+  retryMaxDelayMs: 0,
+};
+
+const reply = (text: string): LlmResponse => ({
+  text,
+  model: 'stub-model',
+  processingTime: 1,
+  usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+});
+
+const unavailable = (provider: string) =>
+  new LlmProviderError('503 Service Unavailable', provider, 503);
+
+/**
+ * Provider whose generate calls are scripted per test
+ */
+const createProvider = (name: string) => {
+  const generate = jest.fn<
+    Promise<LlmResponse>,
+    [unknown, LlmGenerateOptions?]
+  >();
+  const provider = {
+    name,
+    generate,
+    stream: jest.fn(),
+    generateStructured: jest.fn(),
+    countTokens: jest.fn(),
+    isInitialized: () => true,
+    getModel: () => `${name}-default`,
+  } as unknown as LlmProvider;
+
+  return { provider, generate };
+};
+
+const createTarget = (
+  provider: LlmProvider,
+  model?: string,
+  failureThreshold = 5,
+): LlmTarget => ({
+  provider,
+  model,
+  breaker: new CircuitBreaker(
+    `${provider.name}:${model || provider.getModel()}`,
+    { failureThreshold, resetTimeoutMs: 30000 },
+  ),
+});
+
+describe('ResilientLlmProvider', () => {
+  const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+  it('retries transient errors with the same target', async () => {
+    const { provider, generate } = createProvider('primary');
+    generate
+      .mockRejectedValueOnce(unavailable('primary'))
+      .mockRejectedValueOnce(unavailable('primary'))
+      .mockResolvedValueOnce(reply('Hi!'));
+    const target = createTarget(provider);
+
+    const resilient = new ResilientLlmProvider(target, [], OPTIONS);
+
+    await expect(resilient.generate(messages)).resolves.toMatchObject({
+      text: 'Hi!',
+      provider: 'primary',
+    });
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(target.breaker.getSnapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('rethrows client errors without retrying or counting them', async () => {
+    const { provider, generate } = createProvider('primary');
+    const { provider: fallback, generate: fallbackGenerate } =
+      createProvider('fallback');
+    generate.mockRejectedValue(
+      new LlmProviderError('400 Bad Request', 'primary', 400),
+    );
+    const target = createTarget(provider);
+
+    const resilient = new ResilientLlmProvider(
+      target,
+      [createTarget(fallback)],
+      OPTIONS,
+    );
+
+    await expect(resilient.generate(messages)).rejects.toThrow(
+      '400 Bad Request',
+    );
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(fallbackGenerate).not.toHaveBeenCalled();
+    expect(target.breaker.getSnapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('falls back once the primary target has used its retries', async () => {
+    const { provider, generate } = createProvider('primary');
+    const { provider: fallback, generate: fallbackGenerate } =
+      createProvider('fallback');
+    generate.mockRejectedValue(unavailable('primary'));
+    fallbackGenerate.mockResolvedValue(reply('Hi from the fallback'));
+
+    const resilient = new ResilientLlmProvider(
+      createTarget(provider),
+      [createTarget(fallback, 'fallback-small')],
+      OPTIONS,
+    );
+
+    await expect(resilient.generate(messages)).resolves.toMatchObject({
+      text: 'Hi from the fallback',
+      provider: 'fallback',
+    });
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(fallbackGenerate).toHaveBeenCalledWith(
+      messages,
+      expect.objectContaining({ model: 'fallback-small' }),
+    );
+  });
+
+  it('reports every attempted target when all of them fail', async () => {
+    const { provider, generate } = createProvider('primary');
+    const { provider: fallback, generate: fallbackGenerate } =
+      createProvider('fallback');
+    generate.mockRejectedValue(unavailable('primary'));
+    fallbackGenerate.mockRejectedValue(unavailable('fallback'));
+
+    const resilient = new ResilientLlmProvider(
+      createTarget(provider),
+      [createTarget(fallback)],
+      OPTIONS,
+    );
+
+    const error = await resilient.generate(messages).catch((e) => e);
+    expect(error).toBeInstanceOf(LlmUnavailableException);
+    expect(error.attempted).toEqual([
+      'primary:primary-default',
+      'fallback:fallback-default',
+    ]);
+  });
+
+  it('skips a target whose circuit is open', async () => {
+    const { provider, generate } = createProvider('primary');
+    const { provider: fallback, generate: fallbackGenerate } =
+      createProvider('fallback');
+    generate.mockRejectedValue(unavailable('primary'));
+    fallbackGenerate.mockResolvedValue(reply('Hi from the fallback'));
+    const target = createTarget(provider, undefined, 1);
+
+    const resilient = new ResilientLlmProvider(
+      target,
+      [createTarget(fallback)],
+      { ...OPTIONS, maxRetries: 0 },
+    );
+
+    await resilient.generate(messages);
+    expect(target.breaker.getState()).toBe('open');
+
+    await expect(resilient.generate(messages)).resolves.toMatchObject({
+      provider: 'fallback',
+    });
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(resilient.isAvailable()).toBe(true);
+  });
+
+  it('times out slow attempts and aborts them', async () => {
+    const { provider, generate } = createProvider('primary');
+    const signals: AbortSignal[] = [];
+    generate.mockImplementation((_messages, options) => {
+      signals.push(options!.signal!);
+      return new Promise(() => undefined);
+    });
+
+    const resilient = new ResilientLlmProvider(createTarget(provider), [], {
+      ...OPTIONS,
+      timeoutMs: 10,
+      maxRetries: 1,
+    });
+
+    const error = await resilient.generate(messages).catch((e) => e);
+    expect(error).toBeInstanceOf(LlmUnavailableException);
+    expect(error.reason).toBe(
+      'primary:primary-default did not respond within 10ms',
+    );
+    expect(signals).toHaveLength(2);
+    signals.forEach((signal) => {
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toBeInstanceOf(LlmTimeoutError);
+    });
+  });
+
+  it('stops retrying when the caller cancels', async () => {
+    const { provider, generate } = createProvider('primary');
+    const controller = new AbortController();
+    generate.mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(unavailable('primary'));
+    });
+    const target = createTarget(provider);
+
+    const resilient = new ResilientLlmProvider(target, [], OPTIONS);
+
+    await expect(
+      resilient.generate(messages, { signal: controller.signal }),
+    ).rejects.toThrow('503 Service Unavailable');
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(target.breaker.getSnapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('leaves no abort listeners on the caller signal after retries', async () => {
+    const { provider, generate } = createProvider('primary');
+    const controller = new AbortController();
+    generate
+      .mockRejectedValueOnce(unavailable('primary'))
+      .mockRejectedValueOnce(unavailable('primary'))
+      .mockResolvedValueOnce(reply('Hi!'));
+
+    const resilient = new ResilientLlmProvider(
+      createTarget(provider),
+      [],
+      OPTIONS,
+    );
+
+    await resilient.generate(messages, { signal: controller.signal });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('tracks a model override with the breaker of that model', async () => {
+    const { provider, generate } = createProvider('primary');
+    generate.mockRejectedValue(unavailable('primary'));
+    const target = createTarget(provider);
+    const overrides = new Map<string, LlmTarget>();
+    const resolveModelTarget = (model: string) => {
+      if (!overrides.has(model)) {
+        overrides.set(model, createTarget(provider, model));
+      }
+      return overrides.get(model)!;
+    };
+
+    const resilient = new ResilientLlmProvider(
+      target,
+      [],
+      { ...OPTIONS, maxRetries: 0 },
+      resolveModelTarget,
+    );
+
+    await resilient
+      .generate(messages, { model: 'primary-large' })
+      .catch(() => undefined);
+
+    expect(generate).toHaveBeenCalledWith(
+      messages,
+      expect.objectContaining({ model: 'primary-large' }),
+    );
+    expect(overrides.get('primary-large')?.breaker.getSnapshot()).toMatchObject(
+      { name: 'primary:primary-large', consecutiveFailures: 1 },
+    );
+    expect(target.breaker.getSnapshot().consecutiveFailures).toBe(0);
+  });
+});
@@ -0,0 +1,345 @@
+import { Logger } from '@nestjs/common';
+import {
+  LlmGenerateOptions,
+  LlmJsonSchema,
+  LlmMessage,
+  LlmProvider,
+  LlmResponse,
+  LlmStream,
+} from '../../common/interfaces/llm.interface';
+import { CircuitBreaker, CircuitBreakerSnapshot } from './circuit-breaker';
+import {
+  LlmCircuitOpenError,
+  LlmTimeoutError,
+  isRetryableLlmError,
+} from './llm-provider.error';
+import { LlmUnavailableException } from './llm-unavailable.exception';
+
+export interface LlmResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+/**
+ * A provider/model pair calls can be routed to, with its own breaker
+ */
+export interface LlmTarget {
+  provider: LlmProvider;
+  model?: string; // Provider default when omitted
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Target of the same provider for a per-call model override, so failures
+ * of that model open its own breaker
+ */
+export type LlmModelTargetResolver = (model: string) => LlmTarget;
+
+type TargetCall<T> = (
+  target: LlmTarget,
+  model: string | undefined,
+  signal: AbortSignal,
+) => Promise<T>;
+
+/**
+ * Wraps a provider with per-attempt timeouts, exponential backoff retries for
+ * transient errors, a circuit breaker per target and an ordered fallback
+ * chain. Streams are only retried until the upstream stream is established.
+ */
+export class ResilientLlmProvider implements LlmProvider {
+  private readonly logger = new Logger(ResilientLlmProvider.name);
+
+  constructor(
+    private readonly primary: LlmTarget,
+    private readonly fallbacks: LlmTarget[],
+    private readonly options: LlmResilienceOptions,
+    private readonly resolveModelTarget?: LlmModelTargetResolver,
+  ) {}
+
+  get name(): string {
+    return this.primary.provider.name;
+  }
+
+  isInitialized(): boolean {
+    return this.primary.provider.isInitialized();
+  }
+
+  getModel(): string {
+    return this.primary.provider.getModel();
+  }
+
+  async generate(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const { result, target } = await this.execute(
+      'generate',
+      options,
+      (target, model, signal) =>
+        target.provider.generate(messages, { ...options, model, signal }),
+    );
+
+    return { ...result, provider: target.provider.name };
+  }
+
+  async stream(
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmStream> {
+    const { result, target } = await this.execute(
+      'stream',
+      options,
+      (target, model, signal) =>
+        target.provider.stream(messages, { ...options, model, signal }),
+    );
+
+    return {
+      chunks: this.trackChunks(result.chunks, target, options.signal),
+      getResponse: async () => ({
+        ...(await result.getResponse()),
+        provider: target.provider.name,
+      }),
+    };
+  }
+
+  async generateStructured(
+    prompt: string,
+    schema: LlmJsonSchema,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmResponse> {
+    const { result, target } = await this.execute(
+      'generateStructured',
+      options,
+      (target, model, signal) =>
+        target.provider.generateStructured(prompt, schema, {
+          ...options,
+          model,
+          signal,
+        }),
+    );
+
+    return { ...result, provider: target.provider.name };
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.primary.provider.countTokens(text);
+  }
+
+  /**
+   * Breaker state of the primary target followed by its fallbacks
+   */
+  getCircuits(): CircuitBreakerSnapshot[] {
+    return [this.primary, ...this.fallbacks].map((target) =>
+      target.breaker.getSnapshot(),
+    );
+  }
+
+  /**
+   * False while the circuit of every target is open
+   */
+  isAvailable(): boolean {
+    return [this.primary, ...this.fallbacks].some(
+      (target) => target.breaker.getState() !== 'open',
+    );
+  }
+
+  /**
+   * Try the primary target, then each fallback, until one succeeds.
+   * Caller cancellations and non-retryable errors are rethrown as-is.
+   */
+  private async execute<T>(
+    operation: string,
+    options: LlmGenerateOptions,
+    call: TargetCall<T>,
+  ): Promise<{ result: T; target: LlmTarget }> {
+    const primary = this.getPrimaryTarget(options.model);
+    const targets = [primary, ...this.fallbacks];
+    let lastError: Error | undefined;
+
+    for (const target of targets) {
+      if (!target.provider.isInitialized()) {
+        lastError = new Error(`${target.breaker.name} is not initialized`);
+        continue;
+      }
+
+      try {
+        const result = await this.callWithRetries(
+          target,
+          target.model,
+          call,
+          options.signal,
+        );
+
+        if (target !== primary) {
+          this.logger.warn(
+            `${operation} served by fallback ${target.breaker.name}`,
+          );
+        }
+
+        return { result, target };
+      } catch (error) {
+        if (
+          options.signal?.aborted ||
+          (!isRetryableLlmError(error) &&
+            !(error instanceof LlmCircuitOpenError))
+        ) {
+          throw error;
+        }
+
+        lastError = error;
+        this.logger.warn(
+          `${operation} failed on ${target.breaker.name}: ${error.message}`,
+        );
+      }
+    }
+
+    this.logger.error(
+      `${operation} failed on every target: ${lastError?.message}`,
+    );
+    throw new LlmUnavailableException(
+      targets.map((target) => target.breaker.name),
+      lastError?.message || 'unknown error',
+    );
+  }
+
+  /**
+   * The primary target, or the one of the model a call overrides; the
+   * override only applies to the primary provider
+   */
+  private getPrimaryTarget(model?: string): LlmTarget {
+    if (
+      !model ||
+      model === (this.primary.model || this.primary.provider.getModel())
+    ) {
+      return this.primary;
+    }
+
+    return this.resolveModelTarget
+      ? this.resolveModelTarget(model)
+      : { ...this.primary, model };
+  }
+
+  private async callWithRetries<T>(
+    target: LlmTarget,
+    model: string | undefined,
+    call: TargetCall<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (!target.breaker.tryAcquire()) {
+        throw new LlmCircuitOpenError(target.breaker.getSnapshot());
+      }
+
+      try {
+        const result = await this.callWithTimeout(target, model, call, signal);
+        target.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable = isRetryableLlmError(error);
+
+        if (signal?.aborted || !retryable) {
+          // Cancellations and client errors say nothing about provider health
+          target.breaker.release();
+          throw error;
+        }
+
+        target.breaker.recordFailure(error);
+
+        if (attempt >= this.options.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.getBackoffDelay(attempt);
+        this.logger.debug(
+          `Retrying ${target.breaker.name} in ${delay}ms (attempt ${attempt + 2}): ${error.message}`,
+        );
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Run one attempt with its own abort signal, linked to the caller's, that
+   * is aborted when the attempt times out
+   */
+  private async callWithTimeout<T>(
+    target: LlmTarget,
+    model: string | undefined,
+    call: TargetCall<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const controller = new AbortController();
+    // Follows the caller's signal for the whole call, so cancelling also
+    // stops an established stream, without adding listeners per attempt
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, controller.signal])
+      : controller.signal;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new LlmTimeoutError(
+          target.breaker.name,
+          this.options.timeoutMs,
+        );
+        controller.abort(error);
+        reject(error);
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(target, model, attemptSignal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Report mid-stream failures to the breaker
+   */
+  private async *trackChunks(
+    chunks: AsyncGenerator<string>,
+    target: LlmTarget,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    try {
+      yield* chunks;
+    } catch (error) {
+      if (!signal?.aborted && isRetryableLlmError(error)) {
+        target.breaker.recordFailure(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at retryMaxDelayMs
+   */
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(
+      this.options.retryMaxDelayMs,
+      this.options.retryBaseDelayMs * 2 ** attempt,
+    );
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        const abortError = new Error('LLM call aborted');
+        abortError.name = 'AbortError';
+        reject(abortError);
+      };
+      // The caller's signal outlives the retries, drop the listener once
+      // the delay is over
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import {
+  InjectionDetector,
+  InjectionSignal,
+} from '../../../common/interfaces/moderation.interface';
+
+interface Heuristic {
+  reason: string;
+  score: number;
+  pattern: RegExp; // Global, every match is a span
+  minMatches?: number;
+  keepText?: boolean; // Report no spans; sanitizing handles it separately
+}
+
+// Structural tells of injection attempts that rules keyed on exact
+// phrases miss. Learners roleplay and ask about exercise instructions, so
+// every score stays below the default sanitize threshold (0.3): one
+// heuristic alone lets the message through, several together escalate.
+const HEURISTICS: Heuristic[] = [
+  {
+    reason: 'Impersonates a chat role at the start of a line',
+    score: 0.25,
+    pattern: /^\s*(?:system|assistant|developer|tutor)\s*[:>]/gim,
+  },
+  {
+    reason: 'Asks to reveal or repeat the instructions',
+    score: 0.25,
+    pattern:
+      /\b(?:reveal|show|print|repeat|output|display|leak)\b[^.!?\n]{0,40}\b(?:system prompt|your (?:instructions|rules))\b/gi,
+  },
+  {
+    reason: 'Uses several instruction-override terms',
+    score: 0.25,
+    pattern:
+      /\b(?:ignore|disregard|override|bypass|jailbreak|unfiltered|uncensored|developer mode)\b/gi,
+    minMatches: 2,
+  },
+  {
+    reason: 'Contains model control tokens or prompt delimiters',
+    score: 0.25,
+    pattern:
+      /<\|[a-z_]+\|>|\[\/?INST\]|<<\/?SYS>>|^#{3,}\s*(?:system|instructions?)\b/gim,
+  },
+  {
+    reason: 'Contains invisible or text-direction characters',
+    score: 0.25,
+    pattern: /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g,
+    keepText: true,
+  },
+  {
+    reason: 'Contains a long encoded payload',
+    score: 0.2,
+    pattern: /[A-Za-z0-9+/]{60,}={0,2}/g,
+  },
+];
+
+/**
+ * Scores structural features of injection attempts without any stored
+ * configuration
+ */
+@Injectable()
+export class HeuristicInjectionDetector implements InjectionDetector {
+  readonly name = 'heuristic';
+
+  detect(input: string): Promise<InjectionSignal[]> {
+    const signals: InjectionSignal[] = [];
+
+    for (const heuristic of HEURISTICS) {
+      const matches = Array.from(input.matchAll(heuristic.pattern));
+      if (
+        matches.length === 0 ||
+        matches.length < (heuristic.minMatches ?? 1)
+      ) {
+        continue;
+      }
+
+      signals.push({
+        detector: this.name,
+        score: heuristic.score,
+        reason: heuristic.reason,
+        spans: heuristic.keepText
+          ? undefined
+          : matches.map((match) => ({
+              start: match.index,
+              end: match.index + match[0].length,
+            })),
+      });
+    }
+
+    return Promise.resolve(signals);
+  }
+}
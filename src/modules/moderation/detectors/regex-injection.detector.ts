@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  InjectionRule,
+  InjectionRuleDocument,
+} from '../schemas/injection-rule.schema';
+import {
+  InjectionDetector,
+  InjectionSignal,
+} from '../../../common/interfaces/moderation.interface';
+
+interface CompiledRule {
+  name: string;
+  description?: string;
+  regex: RegExp;
+  weight: number;
+}
+
+/**
+ * Matches the active injection rules stored in Mongo. Rules are compiled
+ * once and reloaded after admin edits or when the cache expires.
+ */
+@Injectable()
+export class RegexInjectionDetector implements InjectionDetector {
+  readonly name = 'regex';
+
+  private readonly logger = new Logger(RegexInjectionDetector.name);
+  private readonly cacheTtlMs: number;
+  private rules?: CompiledRule[];
+  private loadedAt = 0;
+
+  constructor(
+    @InjectModel(InjectionRule.name)
+    private ruleModel: Model<InjectionRuleDocument>,
+    private configService: ConfigService,
+  ) {
+    this.cacheTtlMs = Number(
+      this.configService.get('INJECTION_RULES_CACHE_MS', 60000),
+    );
+  }
+
+  async detect(input: string): Promise<InjectionSignal[]> {
+    const rules = await this.getRules();
+    const signals: InjectionSignal[] = [];
+
+    for (const rule of rules) {
+      const spans = Array.from(input.matchAll(rule.regex), (match) => ({
+        start: match.index,
+        end: match.index + match[0].length,
+      })).filter((span) => span.end > span.start);
+
+      if (spans.length > 0) {
+        signals.push({
+          detector: this.name,
+          score: rule.weight,
+          reason: `Rule ${rule.name}${rule.description ? `: ${rule.description}` : ''}`,
+          spans,
+        });
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Drop the compiled rules so the next message reloads them
+   */
+  invalidate(): void {
+    this.rules = undefined;
+  }
+
+  private async getRules(): Promise<CompiledRule[]> {
+    if (this.rules && Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return this.rules;
+    }
+
+    const documents = await this.ruleModel.find({ isActive: true }).exec();
+    this.rules = documents.flatMap((rule) => {
+      try {
+        return [
+          {
+            name: rule.name,
+            description: rule.description,
+            // Global so every occurrence can be removed when sanitizing
+            regex: new RegExp(rule.pattern, `${rule.flags.replace('g', '')}g`),
+            weight: rule.weight,
+          },
+        ];
+      } catch (error) {
+        this.logger.warn(
+          `Skipping injection rule ${rule.name}: ${error.message}`,
+        );
+        return [];
+      }
+    });
+    this.loadedAt = Date.now();
+
+    return this.rules;
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateInjectionRuleDto {
+  @ApiProperty({
+    description: 'Unique rule name',
+    example: 'ignore-previous-instructions',
+  })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'What the rule catches',
+    example: 'Asks the tutor to ignore its instructions',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Regular expression source, without delimiters',
+    example: 'ignore\\s+(previous|above|all)\\s+instructions?',
+  })
+  @IsString()
+  pattern: string;
+
+  @ApiProperty({
+    description: 'Regular expression flags; matching is always global',
+    example: 'i',
+    required: false,
+    default: 'i',
+  })
+  @Matches(/^[imsu]*$/, { message: 'flags may only contain i, m, s and u' })
+  @IsOptional()
+  flags?: string;
+
+  @ApiProperty({
+    description: 'Risk score of a match, from 0 to 1',
+    example: 0.6,
+    required: false,
+    default: 0.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  weight?: number;
+
+  @ApiProperty({
+    description: 'Whether the rule is applied',
+    required: false,
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,15 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class MessageBlockedException extends HttpException {
+  constructor(readonly riskScore: number) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'Message Blocked',
+        message:
+          'This message looks like an attempt to change how the tutor works and was not sent. Please rephrase it as a normal practice message.',
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { INJECTION_DETECTORS, ModerationService } from './moderation.service';
+import { ResponseGuardService } from './response-guard.service';
+import {
+  InjectionRule,
+  InjectionRuleSchema,
+} from './schemas/injection-rule.schema';
+import {
+  ModerationEvent,
+  ModerationEventSchema,
+} from './schemas/moderation-event.schema';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import { RegexInjectionDetector } from './detectors/regex-injection.detector';
+import { HeuristicInjectionDetector } from './detectors/heuristic-injection.detector';
+import { LlmInjectionDetector } from './detectors/llm-injection.detector';
+import { UsageModule } from '../usage/usage.module';
+import { InjectionDetector } from '../../common/interfaces/moderation.interface';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: InjectionRule.name, schema: InjectionRuleSchema },
+      { name: ModerationEvent.name, schema: ModerationEventSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    UsageModule,
+  ],
+  providers: [
+    RegexInjectionDetector,
+    HeuristicInjectionDetector,
+    LlmInjectionDetector,
+    {
+      // Add new detectors here to make them selectable through INJECTION_DETECTORS
+      provide: INJECTION_DETECTORS,
+      useFactory: (
+        configService: ConfigService,
+        ...available: InjectionDetector[]
+      ) => {
+        const names = configService
+          .get<string>('INJECTION_DETECTORS', 'regex,heuristic')
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean);
+
+        return names.map((name) => {
+          const detector = available.find(
+            (candidate) => candidate.name === name,
+          );
+          if (!detector) {
+            throw new Error(`Unknown INJECTION_DETECTORS '${name}'`);
+          }
+          return detector;
+        });
+      },
+      inject: [
+        ConfigService,
+        RegexInjectionDetector,
+        HeuristicInjectionDetector,
+        LlmInjectionDetector,
+      ],
+    },
+    ModerationService,
+    ResponseGuardService,
+  ],
+  exports: [ModerationService, ResponseGuardService],
+})
+export class ModerationModule {}
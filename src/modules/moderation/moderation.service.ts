@@ -0,0 +1,428 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  InjectionRule,
+  InjectionRuleDocument,
+} from './schemas/injection-rule.schema';
+import {
+  ModerationEvent,
+  ModerationEventDocument,
+} from './schemas/moderation-event.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { RegexInjectionDetector } from './detectors/regex-injection.detector';
+import { CreateInjectionRuleDto } from './dto/create-injection-rule.dto';
+import {
+  InjectionAssessment,
+  InjectionDetectionContext,
+  InjectionDetector,
+  InjectionSignal,
+  ModerationAction,
+} from '../../common/interfaces/moderation.interface';
+
+export const INJECTION_DETECTORS = 'INJECTION_DETECTORS';
+
+// Actions from least to most severe, each with the risk score it starts at
+type ModerationThresholds = Array<{ action: ModerationAction; from: number }>;
+
+const WARNING =
+  'Part of your message looked like instructions for the tutor and was removed. Keep practicing with normal messages!';
+
+// Seeded from the patterns the tutor used before rules were editable
+const DEFAULT_RULES = [
+  {
+    name: 'ignore-instructions',
+    description: 'Asks to ignore earlier instructions',
+    pattern: 'ignore\\s+(previous|above|all)\\s+instructions?',
+    weight: 0.6,
+  },
+  {
+    name: 'forget-everything',
+    description: 'Asks to forget earlier context',
+    pattern: 'forget\\s+(everything|all|previous)',
+    weight: 0.5,
+  },
+  {
+    name: 'disregard-instructions',
+    description: 'Asks to disregard earlier instructions',
+    pattern: 'disregard\\s+(previous|above|all)',
+    weight: 0.6,
+  },
+  {
+    name: 'you-are-now',
+    description: 'Reassigns the tutor role; common in harmless roleplay too',
+    pattern: 'you\\s+are\\s+now',
+    weight: 0.25,
+  },
+  {
+    name: 'new-instructions',
+    description: 'Introduces new instructions',
+    pattern: 'new\\s+instructions?:',
+    weight: 0.5,
+  },
+  {
+    name: 'system-label',
+    description: 'Labels text as coming from the system',
+    pattern: 'system\\s*:',
+    weight: 0.4,
+  },
+  {
+    name: 'admin-mode',
+    description: 'Asks for an admin or privileged mode',
+    pattern: 'admin\\s+mode',
+    weight: 0.5,
+  },
+  {
+    name: 'script-tag',
+    description: 'Contains an HTML script tag',
+    pattern: '<\\s*script\\s*>',
+    weight: 0.4,
+  },
+  {
+    name: 'code-block-system',
+    description: 'Hides system instructions in a code block',
+    pattern: '```[\\s\\S]*?system[\\s\\S]*?(```|$)',
+    weight: 0.5,
+  },
+];
+
+/**
+ * Scores user messages for prompt injection. Every configured detector
+ * contributes signals, which are combined into a risk score; the highest
+ * threshold the score reaches decides what happens to the message.
+ */
+@Injectable()
+export class ModerationService implements OnModuleInit {
+  private readonly logger = new Logger(ModerationService.name);
+  private readonly thresholds: ModerationThresholds;
+
+  constructor(
+    @InjectModel(InjectionRule.name)
+    private ruleModel: Model<InjectionRuleDocument>,
+    @InjectModel(ModerationEvent.name)
+    private eventModel: Model<ModerationEventDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>,
+    @Inject(INJECTION_DETECTORS) private detectors: InjectionDetector[],
+    private regexDetector: RegexInjectionDetector,
+    private configService: ConfigService,
+  ) {
+    this.thresholds = [
+      {
+        action: 'sanitize',
+        from: Number(
+          this.configService.get('INJECTION_THRESHOLD_SANITIZE', 0.3),
+        ),
+      },
+      {
+        action: 'warn',
+        from: Number(this.configService.get('INJECTION_THRESHOLD_WARN', 0.5)),
+      },
+      {
+        action: 'block',
+        from: Number(this.configService.get('INJECTION_THRESHOLD_BLOCK', 0.75)),
+      },
+      {
+        action: 'flag',
+        from: Number(this.configService.get('INJECTION_THRESHOLD_FLAG', 0.95)),
+      },
+    ];
+  }
+
+  async onModuleInit() {
+    await this.seedDefaultRules();
+  }
+
+  /**
+   * Score a message and decide its action. Actions other than allow are
+   * recorded, and flag also marks the account for review.
+   */
+  async assessInput(
+    input: string,
+    context: InjectionDetectionContext,
+  ): Promise<InjectionAssessment> {
+    const assessment = await this.assess(input, context);
+
+    if (assessment.action !== 'allow') {
+      this.logger.warn(
+        `Prompt injection risk ${assessment.riskScore.toFixed(2)} from user ${context.userId} (${assessment.action}): ${assessment.signals.map((signal) => signal.reason).join(', ')}`,
+      );
+      await this.recordEvent(input, context, assessment);
+    }
+    if (assessment.action === 'flag') {
+      await this.flagUser(
+        context.userId,
+        `Injection risk ${assessment.riskScore.toFixed(2)}`,
+      );
+    }
+
+    return assessment;
+  }
+
+  /**
+   * Dry-run of assessInput for admins tuning rules and thresholds
+   */
+  async checkInput(input: string): Promise<InjectionAssessment> {
+    return this.assess(input, { userId: 'admin-check' });
+  }
+
+  getThresholds(): ModerationThresholds {
+    return this.thresholds;
+  }
+
+  async listRules(): Promise<InjectionRuleDocument[]> {
+    return this.ruleModel.find().sort({ name: 1 }).exec();
+  }
+
+  async createRule(
+    dto: CreateInjectionRuleDto,
+  ): Promise<InjectionRuleDocument> {
+    if (await this.ruleModel.exists({ name: dto.name }).exec()) {
+      throw new ConflictException(
+        `Injection rule '${dto.name}' already exists`,
+      );
+    }
+    this.validatePattern(dto.pattern, dto.flags);
+
+    const rule = await this.ruleModel.create(dto);
+    this.regexDetector.invalidate();
+
+    this.logger.log(`Injection rule '${rule.name}' created`);
+    return rule;
+  }
+
+  async updateRule(
+    name: string,
+    dto: Partial<CreateInjectionRuleDto>,
+  ): Promise<InjectionRuleDocument> {
+    const { name: newName, ...changes } = dto;
+
+    // The name identifies the rule in signals and events
+    if (newName !== undefined && newName !== name) {
+      throw new BadRequestException('Injection rules cannot be renamed');
+    }
+
+    const rule = await this.ruleModel.findOne({ name }).exec();
+    if (!rule) {
+      throw new NotFoundException(`Injection rule '${name}' not found`);
+    }
+    this.validatePattern(
+      changes.pattern ?? rule.pattern,
+      changes.flags ?? rule.flags,
+    );
+
+    rule.set(changes);
+    await rule.save();
+    this.regexDetector.invalidate();
+
+    this.logger.log(`Injection rule '${name}' updated`);
+    return rule;
+  }
+
+  async deleteRule(name: string): Promise<void> {
+    const result = await this.ruleModel.deleteOne({ name }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Injection rule '${name}' not found`);
+    }
+    this.regexDetector.invalidate();
+
+    this.logger.log(`Injection rule '${name}' deleted`);
+  }
+
+  async listEvents(
+    filters: { userId?: string; action?: string } = {},
+    limit: number = 50,
+    skip: number = 0,
+  ) {
+    const query: Record<string, string> = {};
+    if (filters.userId) {
+      query.userId = filters.userId;
+    }
+    if (filters.action) {
+      query.action = filters.action;
+    }
+
+    const [events, total] = await Promise.all([
+      this.eventModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(skip)
+        .exec(),
+      this.eventModel.countDocuments(query).exec(),
+    ]);
+
+    return { events, total, limit, skip };
+  }
+
+  async listFlaggedUsers(): Promise<UserDocument[]> {
+    return this.userModel
+      .find({ flaggedAt: { $exists: true } })
+      .select('email name role isActive flaggedAt flagReason')
+      .sort({ flaggedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Clear the review flag once an admin has looked at the account
+   */
+  async unflagUser(userId: string): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        userId,
+        { $unset: { flaggedAt: 1, flagReason: 1 } },
+        { new: true },
+      )
+      .select('email name role isActive')
+      .exec();
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    this.logger.log(`Cleared injection flag of user ${userId}`);
+    return user;
+  }
+
+  private async assess(
+    input: string,
+    context: InjectionDetectionContext,
+  ): Promise<InjectionAssessment> {
+    const signals = (
+      await Promise.all(
+        this.detectors.map((detector) => detector.detect(input, context)),
+      )
+    ).flat();
+
+    // Noisy-OR: independent weak signals add up without ever exceeding 1
+    const riskScore =
+      1 - signals.reduce((safe, signal) => safe * (1 - signal.score), 1);
+
+    let action: ModerationAction = 'allow';
+    for (const threshold of this.thresholds) {
+      if (riskScore >= threshold.from) {
+        action = threshold.action;
+      }
+    }
+
+    const assessment: InjectionAssessment = {
+      riskScore: Math.round(riskScore * 1000) / 1000,
+      action,
+      signals,
+    };
+    if (action === 'sanitize' || action === 'warn') {
+      assessment.sanitizedInput = this.sanitize(input, signals);
+    }
+    if (action === 'warn') {
+      assessment.warning = WARNING;
+    }
+
+    return assessment;
+  }
+
+  /**
+   * Remove matched text and the structures injections hide in
+   */
+  private sanitize(input: string, signals: InjectionSignal[]): string {
+    const spans = signals
+      .flatMap((signal) => signal.spans ?? [])
+      .sort((a, b) => a.start - b.start);
+
+    // Merge overlapping spans so each is removed once
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const span of spans) {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    }
+
+    let sanitized = input;
+    for (const span of merged.reverse()) {
+      sanitized =
+        sanitized.slice(0, span.start) +
+        '[removed]' +
+        sanitized.slice(span.end);
+    }
+
+    return (
+      sanitized
+        // Markdown code blocks that might contain system prompts
+        .replace(/```[\s\S]*?```/g, '[code block removed]')
+        .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '')
+        .replace(/^\s*(?:system|assistant|developer|tutor)\s*[:>]\s*/gim, '')
+        // Excessive newlines that might be used for prompt breaking
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+    );
+  }
+
+  private validatePattern(pattern: string, flags: string = 'i'): void {
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      throw new BadRequestException(`Invalid pattern: ${error.message}`);
+    }
+  }
+
+  private async recordEvent(
+    input: string,
+    context: InjectionDetectionContext,
+    assessment: InjectionAssessment,
+  ): Promise<void> {
+    await this.eventModel
+      .create({
+        userId: context.userId,
+        conversationId: context.conversationId,
+        riskScore: assessment.riskScore,
+        action: assessment.action,
+        signals: assessment.signals,
+        excerpt: input.slice(0, 500),
+      })
+      .catch((error) =>
+        this.logger.error('Failed to record moderation event', error),
+      );
+  }
+
+  private async flagUser(userId: string, reason: string): Promise<void> {
+    // Keep the first flag until an admin reviews the account
+    await this.userModel
+      .updateOne(
+        { _id: userId, flaggedAt: { $exists: false } },
+        { flaggedAt: new Date(), flagReason: reason },
+      )
+      .exec()
+      .catch((error) =>
+        this.logger.error(`Failed to flag user ${userId}`, error),
+      );
+  }
+
+  /**
+   * Seed the default injection rules
+   */
+  private async seedDefaultRules(): Promise<void> {
+    const count = await this.ruleModel.countDocuments().exec();
+
+    if (count > 0) {
+      this.logger.log('Injection rules already seeded');
+      return;
+    }
+
+    await this.ruleModel.insertMany(DEFAULT_RULES);
+    this.logger.log(`Seeded ${DEFAULT_RULES.length} injection rules`);
+  }
+}
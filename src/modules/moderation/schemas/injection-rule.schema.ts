@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type InjectionRuleDocument = InjectionRule & Document;
+
+/**
+ * Regular expression that raises the injection risk of matching messages
+ */
+@Schema({ timestamps: true })
+export class InjectionRule {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true })
+  pattern: string; // RegExp source
+
+  @Prop({ default: 'i' })
+  flags: string;
+
+  @Prop({ default: 0.5, min: 0, max: 1 })
+  weight: number; // Risk score of a match
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const InjectionRuleSchema = SchemaFactory.createForClass(InjectionRule);
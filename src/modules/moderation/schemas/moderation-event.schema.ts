@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { InjectionSignal } from '../../../common/interfaces/moderation.interface';
+
+export type ModerationEventDocument = ModerationEvent & Document;
+
+/**
+ * Audit log of messages that triggered an action other than allow
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ModerationEvent {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop()
+  conversationId?: string;
+
+  @Prop({ required: true })
+  riskScore: number;
+
+  @Prop({
+    required: true,
+    enum: ['sanitize', 'warn', 'block', 'flag'],
+  })
+  action: string;
+
+  @Prop({ type: [Object], default: [] })
+  signals: InjectionSignal[];
+
+  @Prop()
+  excerpt: string; // Start of the message, for review
+}
+
+export const ModerationEventSchema =
+  SchemaFactory.createForClass(ModerationEvent);
+
+// Indexes
+ModerationEventSchema.index({ userId: 1, createdAt: -1 });
+ModerationEventSchema.index({ action: 1, createdAt: -1 });
@@ -5,9 +5,68 @@ import {
   IsOptional,
   IsBoolean,
   IsNumber,
+  IsIn,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
+export class PromptTemplateTargetingDto {
+  @ApiProperty({
+    example: ['beginner'],
+    required: false,
+    type: [String],
+    enum: ['beginner', 'intermediate', 'advanced'],
+  })
+  @IsArray()
+  @IsIn(['beginner', 'intermediate', 'advanced'], { each: true })
+  @IsOptional()
+  levels?: string[];
+
+  @ApiProperty({
+    example: ['practice'],
+    required: false,
+    type: [String],
+    enum: ['general', 'simulation', 'practice'],
+  })
+  @IsArray()
+  @IsIn(['general', 'simulation', 'practice'], { each: true })
+  @IsOptional()
+  conversationTypes?: string[];
+
+  @ApiProperty({
+    example: ['job_interview'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  simulationTypes?: string[];
+
+  @ApiProperty({
+    description: 'Matches when the conversation shares any of these tags',
+    example: ['travel', 'food'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  topicTags?: string[];
+
+  @ApiProperty({
+    description: 'Learner locales; a language ("es") also matches its regions',
+    example: ['es', 'pt-BR'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  locales?: string[];
+}
+
 export class CreatePromptTemplateDto {
   @ApiProperty({
     description: 'Unique template name',
@@ -32,14 +91,17 @@ export class CreatePromptTemplateDto {
   layer: string;
 
   @ApiProperty({
-    description: 'Prompt template content with {{variable}} placeholders',
-    example: 'You are an AI English tutor. Student level: {{level}}',
+    description:
+      'Prompt template content. Supports {{variable}}, filters ({{topic | default: "travel" | upper}}; default, upper, lower, capitalize, trim, join), {{#if level == "beginner"}}...{{else}}...{{/if}} and {{#each userGoals}}{{@index}}. {{this}}{{/each}}. Available variables: userId, level, topic, userGoals, simulationType, conversationType',
+    example:
+      'Student level: {{level}}{{#if level == "beginner"}} Use simple words.{{/if}}',
   })
   @IsString()
   template: string;
 
   @ApiProperty({
-    description: 'List of variable names used in template',
+    description:
+      'Variables used in the template; must match the body exactly. Derived from the body when omitted on create',
     example: ['level', 'topic'],
     required: false,
     type: [String],
@@ -80,6 +142,17 @@ export class CreatePromptTemplateDto {
   @IsOptional()
   priority?: number;
 
+  @ApiProperty({
+    description:
+      'Conversations the template applies to. Every non-empty list must match; omit to apply everywhere',
+    required: false,
+    type: PromptTemplateTargetingDto,
+  })
+  @ValidateNested()
+  @Type(() => PromptTemplateTargetingDto)
+  @IsOptional()
+  targeting?: PromptTemplateTargetingDto;
+
   @ApiProperty({
     description: 'Additional metadata',
     required: false,
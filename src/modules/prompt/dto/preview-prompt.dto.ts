@@ -0,0 +1,113 @@
+import {
+  IsString,
+  IsEnum,
+  IsArray,
+  IsOptional,
+  IsBoolean,
+  IsMongoId,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PreviewMessageDto {
+  @ApiProperty({ enum: ['user', 'assistant'], example: 'user' })
+  @IsEnum(['user', 'assistant'])
+  role: string;
+
+  @ApiProperty({ example: 'I goed to the park yesterday.' })
+  @IsString()
+  content: string;
+}
+
+export class PreviewPromptDto {
+  @ApiProperty({
+    description:
+      'Existing conversation to take metadata and history from; the fields below override or extend it',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @IsMongoId()
+  @IsOptional()
+  conversationId?: string;
+
+  @ApiProperty({
+    description: 'Student level',
+    enum: ['beginner', 'intermediate', 'advanced'],
+    required: false,
+  })
+  @IsEnum(['beginner', 'intermediate', 'advanced'])
+  @IsOptional()
+  level?: 'beginner' | 'intermediate' | 'advanced';
+
+  @ApiProperty({ example: 'travel', required: false })
+  @IsString()
+  @IsOptional()
+  topic?: string;
+
+  @ApiProperty({
+    example: ['job interviews', 'small talk'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  userGoals?: string[];
+
+  @ApiProperty({ example: 'job_interview', required: false })
+  @IsString()
+  @IsOptional()
+  simulationType?: string;
+
+  @ApiProperty({
+    enum: ['general', 'simulation', 'practice'],
+    required: false,
+  })
+  @IsEnum(['general', 'simulation', 'practice'])
+  @IsOptional()
+  conversationType?: string;
+
+  @ApiProperty({ example: ['travel'], required: false, type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  topicTags?: string[];
+
+  @ApiProperty({ example: 'es-MX', required: false })
+  @IsString()
+  @IsOptional()
+  locale?: string;
+
+  @ApiProperty({
+    description:
+      'Messages appended to the conversation history (or the whole history without conversationId)',
+    required: false,
+    type: [PreviewMessageDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PreviewMessageDto)
+  @IsOptional()
+  history?: PreviewMessageDto[];
+
+  @ApiProperty({
+    description:
+      'Send the compiled prompt and history to the provider and include its reply. The history must end with a user message',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  run?: boolean;
+
+  @ApiProperty({
+    description:
+      'Provider for the run, defaults to the conversation provider or the environment default',
+    example: 'mock',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  provider?: string;
+}
@@ -0,0 +1,12 @@
+import { IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RollbackPromptTemplateDto {
+  @ApiProperty({
+    description: 'Version whose content becomes the new current version',
+    example: 2,
+  })
+  @IsInt()
+  @Min(1)
+  version: number;
+}
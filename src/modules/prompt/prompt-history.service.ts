@@ -0,0 +1,166 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  PromptTemplateVersion,
+  PromptTemplateVersionDocument,
+} from './schemas/prompt-template-version.schema';
+import { PromptTemplateDocument } from './schemas/prompt-template.schema';
+import {
+  PromptTemplateAuthor,
+  PromptTemplateChangeType,
+} from '../../common/interfaces/prompt.interface';
+import { DiffSegment, diffLines } from '../../common/utils/text-diff';
+
+// Template fields compared by diffVersions, besides the template body
+const DIFFED_FIELDS = [
+  'description',
+  'layer',
+  'variables',
+  'tags',
+  'isActive',
+  'priority',
+  'targeting',
+  'metadata',
+] as const;
+
+export interface PromptTemplateVersionDiff {
+  templateName: string;
+  from: number;
+  to: number;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  templateDiff: DiffSegment[]; // Line diff of the template body
+}
+
+/**
+ * Version history of prompt templates. Versions are only ever inserted, so
+ * any earlier state of a template can be inspected and restored.
+ */
+@Injectable()
+export class PromptHistoryService {
+  private readonly logger = new Logger(PromptHistoryService.name);
+
+  constructor(
+    @InjectModel(PromptTemplateVersion.name)
+    private versionModel: Model<PromptTemplateVersionDocument>,
+  ) {}
+
+  /**
+   * Snapshot the current state of a template
+   */
+  async record(
+    template: PromptTemplateDocument,
+    changeType: PromptTemplateChangeType,
+    author?: PromptTemplateAuthor,
+    restoredFrom?: number,
+  ): Promise<PromptTemplateVersionDocument> {
+    return this.versionModel.create({
+      templateName: template.name,
+      version: template.version,
+      changeType,
+      author: author && { userId: author.userId, email: author.email },
+      restoredFrom,
+      description: template.description,
+      layer: template.layer,
+      template: template.template,
+      variables: template.variables,
+      tags: template.tags,
+      isActive: template.isActive,
+      priority: template.priority,
+      targeting: template.targeting,
+      metadata: template.metadata,
+    });
+  }
+
+  /**
+   * Version number for a new template, continuing the history of a deleted
+   * template with the same name
+   */
+  async nextVersion(templateName: string): Promise<number> {
+    const latest = await this.versionModel
+      .findOne({ templateName })
+      .sort({ version: -1 })
+      .select('version')
+      .exec();
+    return (latest?.version ?? 0) + 1;
+  }
+
+  /**
+   * Give templates created before versioning their first version
+   */
+  async backfill(templates: PromptTemplateDocument[]): Promise<void> {
+    let created = 0;
+
+    for (const template of templates) {
+      const exists = await this.versionModel
+        .exists({ templateName: template.name, version: template.version })
+        .exec();
+      if (!exists) {
+        await this.record(template, 'migration');
+        created++;
+      }
+    }
+
+    if (created > 0) {
+      this.logger.log(`Recorded initial versions of ${created} templates`);
+    }
+  }
+
+  /**
+   * Versions of a template, newest first
+   */
+  async listVersions(
+    templateName: string,
+  ): Promise<PromptTemplateVersionDocument[]> {
+    return this.versionModel
+      .find({ templateName })
+      .sort({ version: -1 })
+      .exec();
+  }
+
+  async getVersion(
+    templateName: string,
+    version: number,
+  ): Promise<PromptTemplateVersionDocument> {
+    const snapshot = await this.versionModel
+      .findOne({ templateName, version })
+      .exec();
+
+    if (!snapshot) {
+      throw new NotFoundException(
+        `Version ${version} of template '${templateName}' not found`,
+      );
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Changed fields and a line diff of the template body between two versions
+   */
+  async diffVersions(
+    templateName: string,
+    from: number,
+    to: number,
+  ): Promise<PromptTemplateVersionDiff> {
+    const [before, after] = await Promise.all([
+      this.getVersion(templateName, from),
+      this.getVersion(templateName, to),
+    ]);
+
+    const changes: PromptTemplateVersionDiff['changes'] = {};
+    for (const field of DIFFED_FIELDS) {
+      if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+        changes[field] = { from: before[field], to: after[field] };
+      }
+    }
+
+    return {
+      templateName,
+      from,
+      to,
+      changes,
+      templateDiff: diffLines(before.template, after.template),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { ConversationContext } from '../../common/interfaces/conversation.interface';
+import { evaluateTargeting } from './prompt-targeting';
+
+describe('evaluateTargeting', () => {
+  const context: ConversationContext = {
+    userId: 'user-1',
+    conversationId: 'conversation-1',
+    conversationType: 'simulation',
+    history: [],
+    metadata: {
+      level: 'beginner',
+      simulationType: 'restaurant',
+      topicTags: ['food', 'travel'],
+      locale: 'es-MX',
+    },
+  };
+
+  it('selects templates without targeting', () => {
+    expect(evaluateTargeting(undefined, context)).toEqual({
+      selected: true,
+      reasons: ['no targeting'],
+    });
+    expect(evaluateTargeting({ levels: [], locales: [] }, context)).toEqual({
+      selected: true,
+      reasons: ['no targeting'],
+    });
+  });
+
+  it('selects a template when every rule matches, explaining each one', () => {
+    expect(
+      evaluateTargeting(
+        {
+          levels: ['Beginner', 'Intermediate'],
+          conversationTypes: ['simulation'],
+          simulationTypes: ['restaurant'],
+          topicTags: ['travel'],
+          locales: ['es'],
+        },
+        context,
+      ),
+    ).toEqual({
+      selected: true,
+      reasons: [
+        'level beginner in [Beginner, Intermediate]',
+        'conversationType simulation in [simulation]',
+        'simulationType restaurant in [restaurant]',
+        'topicTags food, travel in [travel]',
+        'locale es-MX in [es]',
+      ],
+    });
+  });
+
+  it('skips a template when any rule fails', () => {
+    expect(
+      evaluateTargeting(
+        { levels: ['beginner'], topicTags: ['business'] },
+        context,
+      ),
+    ).toEqual({
+      selected: false,
+      reasons: [
+        'level beginner in [beginner]',
+        'topicTags food, travel not in [business]',
+      ],
+    });
+  });
+
+  it('treats missing metadata as no match', () => {
+    expect(
+      evaluateTargeting(
+        { levels: ['beginner'], topicTags: ['food'] },
+        { ...context, metadata: undefined },
+      ),
+    ).toEqual({
+      selected: false,
+      reasons: [
+        'level (none) not in [beginner]',
+        'topicTags (none) not in [food]',
+      ],
+    });
+  });
+
+  it.each([
+    ['es-MX', ['es'], true],
+    ['es-MX', ['ES-mx'], true],
+    ['es', ['es-MX'], false],
+    ['est', ['es'], false],
+  ])('matches locale %s against %p: %p', (locale, locales, selected) => {
+    expect(
+      evaluateTargeting(
+        { locales },
+        { ...context, metadata: { ...context.metadata, locale } },
+      ).selected,
+    ).toBe(selected);
+  });
+});
@@ -0,0 +1,59 @@
+import { ConversationContext } from '../../common/interfaces/conversation.interface';
+import { PromptTemplateTargeting } from '../../common/interfaces/prompt.interface';
+
+/**
+ * Check a template's targeting against a conversation. Reasons describe
+ * every rule that was checked, so logs and previews can explain the choice.
+ */
+export function evaluateTargeting(
+  targeting: PromptTemplateTargeting | undefined,
+  context: ConversationContext,
+): { selected: boolean; reasons: string[] } {
+  const metadata = context.metadata || {};
+  const reasons: string[] = [];
+  let selected = true;
+
+  const check = (
+    rule: string,
+    allowed: string[] | undefined,
+    actual: string | string[] | undefined,
+    matches: (allowed: string, actual: string) => boolean = (a, b) =>
+      a.toLowerCase() === b.toLowerCase(),
+  ) => {
+    if (!allowed?.length) {
+      return;
+    }
+
+    const values = (Array.isArray(actual) ? actual : [actual]).filter(
+      (value): value is string => !!value,
+    );
+    const matched = values.some((value) =>
+      allowed.some((entry) => matches(entry, value)),
+    );
+
+    reasons.push(
+      `${rule} ${values.length ? values.join(', ') : '(none)'} ${matched ? 'in' : 'not in'} [${allowed.join(', ')}]`,
+    );
+    selected &&= matched;
+  };
+
+  check('level', targeting?.levels, metadata.level);
+  check(
+    'conversationType',
+    targeting?.conversationTypes,
+    context.conversationType,
+  );
+  check('simulationType', targeting?.simulationTypes, metadata.simulationType);
+  check('topicTags', targeting?.topicTags, metadata.topicTags);
+  check('locale', targeting?.locales, metadata.locale, (allowed, actual) => {
+    const locale = actual.toLowerCase();
+    const entry = allowed.toLowerCase();
+    return locale === entry || locale.startsWith(`${entry}-`);
+  });
+
+  if (reasons.length === 0) {
+    reasons.push('no targeting');
+  }
+
+  return { selected, reasons };
+}
@@ -1,18 +1,27 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PromptService } from './prompt.service';
+import { PromptHistoryService } from './prompt-history.service';
 import {
   PromptTemplate,
   PromptTemplateSchema,
 } from './schemas/prompt-template.schema';
+import {
+  PromptTemplateVersion,
+  PromptTemplateVersionSchema,
+} from './schemas/prompt-template-version.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: PromptTemplate.name, schema: PromptTemplateSchema },
+      {
+        name: PromptTemplateVersion.name,
+        schema: PromptTemplateVersionSchema,
+      },
     ]),
   ],
-  providers: [PromptService],
-  exports: [PromptService],
+  providers: [PromptService, PromptHistoryService],
+  exports: [PromptService, PromptHistoryService],
 })
 export class PromptModule {}
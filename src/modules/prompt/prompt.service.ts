@@ -1,96 +1,182 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import {
   PromptTemplate,
   PromptTemplateDocument,
 } from './schemas/prompt-template.schema';
+import { PromptHistoryService } from './prompt-history.service';
+import { evaluateTargeting } from './prompt-targeting';
+import {
+  PromptTemplateSyntaxError,
+  TemplateNode,
+  collectVariables,
+  parseTemplate,
+  renderTemplate,
+} from './template-engine';
 import {
   PromptVariables,
   CompiledPrompt,
-  PromptInjectionCheckResult,
+  PromptPreview,
+  PromptTemplateOverride,
+  PromptTemplateSelection,
+  PromptTemplateTargeting,
+  PromptTemplateAuthor,
+  PromptTemplateChangeType,
 } from '../../common/interfaces/prompt.interface';
 import { ConversationContext } from '../../common/interfaces/conversation.interface';
+import { estimateTokens } from '../../common/utils/token-estimator';
+
+// Recent history is sent to the model as chat turns, so the context layer
+// only carries the topic and the summary of older turns. Legacy bodies are
+// kept to migrate untouched seeds.
+const CONTEXT_CONVERSATION_TEMPLATE = `CURRENT CONVERSATION:
+Topic: {{topic}}
+{{#if conversationSummary}}
+
+Earlier in this conversation:
+{{conversationSummary}}
+{{/if}}
+
+Continue the conversation naturally, helping the student practice English.`;
+
+const LEGACY_CONTEXT_CONVERSATION_TEMPLATES = [
+  `CURRENT CONVERSATION:
+Topic: {{topic}}
+
+Recent messages:
+{{conversationHistory}}
+
+Continue the conversation naturally, helping the student practice English.`,
+  `CURRENT CONVERSATION:
+Topic: {{topic}}
+
+Continue the conversation naturally, helping the student practice English.`,
+];
+
+// Variables compilePrompt provides; templates may only use these
+export const PROMPT_VARIABLES = [
+  'userId',
+  'level',
+  'topic',
+  'userGoals',
+  'simulationType',
+  'conversationType',
+  'conversationSummary',
+];
 
 @Injectable()
 export class PromptService implements OnModuleInit {
   private readonly logger = new Logger(PromptService.name);
-
-  // Palabras clave sospechosas de prompt injection
-  private readonly INJECTION_PATTERNS = [
-    /ignore\s+(previous|above|all)\s+instructions?/i,
-    /forget\s+(everything|all|previous)/i,
-    /disregard\s+(previous|above|all)/i,
-    /you\s+are\s+now/i,
-    /new\s+instructions?:/i,
-    /system\s*:/i,
-    /admin\s+mode/i,
-    /<\s*script\s*>/i,
-    /```[\s\S]*system/i,
-  ];
+  private readonly parsedTemplates = new Map<string, TemplateNode[]>(); // name@version or name#source -> AST
 
   constructor(
     @InjectModel(PromptTemplate.name)
     private promptTemplateModel: Model<PromptTemplateDocument>,
+    private promptHistoryService: PromptHistoryService,
   ) {}
 
   async onModuleInit() {
     await this.seedDefaultTemplates();
+    await this.migrateLegacyTemplates();
+    await this.backfillVersions();
   }
 
   /**
    * Compile prompts for a conversation using the 3-layer system
    * Layer 1: System instructions (immutable)
    * Layer 2: User context (level, goals, preferences)
-   * Layer 3: Dynamic context (conversation history, current topic)
+   * Layer 3: Dynamic context (current topic)
+   *
+   * Conversation history is not part of the prompt: providers receive it as
+   * role-tagged turns alongside these layers.
+   *
+   * Within each layer only templates whose targeting matches the
+   * conversation are used; `selection` explains the choice. Overrides
+   * replace the body of selected templates.
    */
-  async compilePrompt(context: ConversationContext): Promise<CompiledPrompt> {
+  async compilePrompt(
+    context: ConversationContext,
+    overrides: PromptTemplateOverride[] = [],
+  ): Promise<CompiledPrompt> {
     try {
+      const selection: PromptTemplateSelection[] = [];
+
       // Layer 1: System prompts (highest priority, immutable)
-      const systemPrompts = await this.promptTemplateModel
-        .find({ layer: 'system', isActive: true })
-        .sort({ priority: -1 })
-        .exec();
+      const systemPrompts = await this.selectTemplates(
+        'system',
+        context,
+        selection,
+      );
 
       // Layer 2: User-specific prompts
-      const userPrompts = await this.promptTemplateModel
-        .find({ layer: 'user', isActive: true })
-        .sort({ priority: -1 })
-        .exec();
+      const userPrompts = await this.selectTemplates(
+        'user',
+        context,
+        selection,
+      );
 
       // Layer 3: Context prompts
-      const contextPrompts = await this.promptTemplateModel
-        .find({ layer: 'context', isActive: true })
-        .sort({ priority: -1 })
-        .exec();
+      const contextPrompts = await this.selectTemplates(
+        'context',
+        context,
+        selection,
+      );
 
       // Build variables for template compilation
-      const variables: PromptVariables = {
-        userId: context.userId,
-        level: context.metadata?.level || 'intermediate',
-        topic: context.metadata?.topic || 'general conversation',
-        userGoals:
-          context.metadata?.userGoals?.join(', ') || 'improve English skills',
-        conversationHistory: this.formatConversationHistory(context.history),
-      };
+      const variables = this.buildVariables(context);
 
       // Compile each layer
-      const systemPrompt = this.compileLayer(systemPrompts, variables);
-      const userPrompt = this.compileLayer(userPrompts, variables);
-      const contextPrompt = this.compileLayer(contextPrompts, variables);
+      const overridesByName = new Map(
+        overrides.map((override) => [override.templateName, override]),
+      );
+      const systemPrompt = this.compileLayer(
+        systemPrompts,
+        variables,
+        overridesByName,
+      );
+      const userPrompt = this.compileLayer(
+        userPrompts,
+        variables,
+        overridesByName,
+      );
+      const contextPrompt = this.compileLayer(
+        contextPrompts,
+        variables,
+        overridesByName,
+      );
 
       // Combine all layers
       const fullPrompt = `${systemPrompt}\n\n${userPrompt}\n\n${contextPrompt}`;
 
       this.logger.debug(
-        `Compiled prompt with ${systemPrompts.length + userPrompts.length + contextPrompts.length} templates`,
+        `Compiled prompt for conversation ${context.conversationId} with ${systemPrompts.length + userPrompts.length + contextPrompts.length} templates`,
       );
+      for (const entry of selection) {
+        this.logger.debug(
+          `${entry.selected ? 'Selected' : 'Skipped'} ${entry.name}@${entry.version}: ${entry.reasons.join('; ')}`,
+        );
+      }
 
       return {
         systemPrompt,
         userPrompt,
         contextPrompt,
         fullPrompt,
+        templates: [...systemPrompts, ...userPrompts, ...contextPrompts].map(
+          (template) => ({
+            name: template.name,
+            version: template.version,
+            layer: template.layer,
+          }),
+        ),
+        selection,
       };
     } catch (error) {
       this.logger.error('Error compiling prompt', error);
@@ -98,104 +184,242 @@ export class PromptService implements OnModuleInit {
     }
   }
 
+  /**
+   * Compile a prompt and explain it: which templates matched, which of
+   * their variables are empty for this context and how many tokens the
+   * layers and history add up to
+   */
+  async previewPrompt(context: ConversationContext): Promise<PromptPreview> {
+    const compiled = await this.compilePrompt(context);
+    const variables = this.buildVariables(context);
+
+    const documents = await this.promptTemplateModel
+      .find({ name: { $in: compiled.templates.map((ref) => ref.name) } })
+      .exec();
+    const byName = new Map(documents.map((doc) => [doc.name, doc]));
+
+    const selected = compiled.selection.filter((entry) => entry.selected);
+    const templates = selected.map((ref) => {
+      const document = byName.get(ref.name);
+      return {
+        ...ref,
+        priority: document?.priority ?? 0,
+        unresolvedVariables: document
+          ? collectVariables(this.getParsedTemplate(document)).filter(
+              (name) => !this.hasValue(variables[name]),
+            )
+          : [],
+      };
+    });
+
+    const estimatedTokens = {
+      systemPrompt: estimateTokens(compiled.systemPrompt),
+      userPrompt: estimateTokens(compiled.userPrompt),
+      contextPrompt: estimateTokens(compiled.contextPrompt),
+      history: context.history.reduce(
+        (total, message) => total + estimateTokens(message.content),
+        0,
+      ),
+    };
+
+    return {
+      compiled,
+      variables,
+      templates,
+      skippedTemplates: compiled.selection.filter((entry) => !entry.selected),
+      unresolvedVariables: Array.from(
+        new Set(templates.flatMap((template) => template.unresolvedVariables)),
+      ),
+      estimatedTokens: {
+        ...estimatedTokens,
+        total: Object.values(estimatedTokens).reduce((a, b) => a + b, 0),
+      },
+    };
+  }
+
+  /**
+   * Active templates of a layer that target the conversation, by priority.
+   * Every candidate is added to the selection with the reasons.
+   */
+  private async selectTemplates(
+    layer: 'system' | 'user' | 'context',
+    context: ConversationContext,
+    selection: PromptTemplateSelection[],
+  ): Promise<PromptTemplateDocument[]> {
+    const templates = await this.promptTemplateModel
+      .find({ layer, isActive: true })
+      .sort({ priority: -1 })
+      .exec();
+
+    return templates.filter((template) => {
+      const { selected, reasons } = evaluateTargeting(
+        this.getTargeting(template),
+        context,
+      );
+      selection.push({
+        name: template.name,
+        version: template.version,
+        layer: template.layer,
+        selected,
+        reasons,
+      });
+      return selected;
+    });
+  }
+
+  /**
+   * Targeting of a template, with the legacy metadata.targetLevel as levels
+   */
+  private getTargeting(
+    template: PromptTemplateDocument,
+  ): PromptTemplateTargeting | undefined {
+    const targetLevel = template.metadata?.targetLevel;
+    if (template.targeting?.levels?.length || !targetLevel) {
+      return template.targeting;
+    }
+    return { ...template.targeting, levels: [targetLevel] };
+  }
+
+  /**
+   * Values of PROMPT_VARIABLES for a conversation
+   */
+  private buildVariables(context: ConversationContext): PromptVariables {
+    return {
+      userId: context.userId,
+      level: context.metadata?.level || 'intermediate',
+      topic: context.metadata?.topic || 'general conversation',
+      userGoals: context.metadata?.userGoals?.length
+        ? context.metadata.userGoals
+        : ['improve English skills'],
+      simulationType: context.metadata?.simulationType || '',
+      conversationType: context.conversationType || 'general',
+      conversationSummary: context.summary || '',
+    };
+  }
+
+  private hasValue(value: unknown): boolean {
+    return Array.isArray(value)
+      ? value.length > 0
+      : value !== undefined && value !== null && value !== '';
+  }
+
   /**
    * Compile a layer of prompts with variable substitution
    */
   private compileLayer(
     templates: PromptTemplateDocument[],
     variables: PromptVariables,
+    overrides: Map<string, PromptTemplateOverride> = new Map(),
   ): string {
     return templates
-      .map((template) => this.replaceVariables(template.template, variables))
+      .map((template) =>
+        this.renderTemplate(template, variables, overrides.get(template.name)),
+      )
       .join('\n\n');
   }
 
-  /**
-   * Replace variables in template string
-   * Format: {{variableName}}
-   */
-  private replaceVariables(
-    template: string,
+  private renderTemplate(
+    template: PromptTemplateDocument,
     variables: PromptVariables,
+    override?: PromptTemplateOverride,
   ): string {
-    let result = template;
-
-    Object.keys(variables).forEach((key) => {
-      const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-      const value = variables[key];
-      const stringValue =
-        typeof value === 'object' ? JSON.stringify(value) : String(value);
-      result = result.replace(regex, stringValue);
-    });
-
-    return result;
+    return renderTemplate(
+      this.getParsedTemplate(template, override),
+      variables,
+    );
   }
 
   /**
-   * Format conversation history for inclusion in prompts
+   * Parse each template version (or override) only once. Templates stored
+   * before validation existed are sent as written if they do not parse.
    */
-  private formatConversationHistory(
-    history: Array<{ role: string; content: string }>,
-  ): string {
-    if (!history || history.length === 0) {
-      return 'No previous conversation';
+  private getParsedTemplate(
+    template: PromptTemplateDocument,
+    override?: PromptTemplateOverride,
+  ): TemplateNode[] {
+    const key = override
+      ? `${template.name}#${override.source}`
+      : `${template.name}@${template.version}`;
+    const body = override ? override.template : template.template;
+    let nodes = this.parsedTemplates.get(key);
+
+    if (!nodes) {
+      try {
+        nodes = parseTemplate(body);
+      } catch (error) {
+        this.logger.warn(
+          `Template ${key} does not parse, using it verbatim: ${error.message}`,
+        );
+        nodes = [{ type: 'text', value: body }];
+      }
+      this.parsedTemplates.set(key, nodes);
     }
 
-    return history
-      .slice(-10) // Last 10 messages to avoid token limits
-      .map((msg) => `${msg.role}: ${msg.content}`)
-      .join('\n');
+    return nodes;
   }
 
   /**
-   * Check user input for potential prompt injection attacks
+   * Check a template body parses, only uses known variables and matches its
+   * declared variables. Returns the variables the body uses.
    */
-  checkPromptInjection(userInput: string): PromptInjectionCheckResult {
-    const threats: string[] = [];
-
-    // Check against known injection patterns
-    this.INJECTION_PATTERNS.forEach((pattern, index) => {
-      if (pattern.test(userInput)) {
-        threats.push(`Suspicious pattern detected (rule ${index + 1})`);
+  validateTemplate(template: string, declared?: string[]): string[] {
+    let used: string[];
+    try {
+      used = collectVariables(parseTemplate(template));
+    } catch (error) {
+      if (error instanceof PromptTemplateSyntaxError) {
+        throw new BadRequestException(`Invalid template: ${error.message}`);
       }
-    });
-
-    const isSafe = threats.length === 0;
+      throw error;
+    }
 
-    // Sanitize input by removing potentially dangerous content
-    let sanitizedInput = userInput;
-    if (!isSafe) {
-      // Remove markdown code blocks that might contain system prompts
-      sanitizedInput = sanitizedInput.replace(
-        /```[\s\S]*?```/g,
-        '[code block removed]',
+    const problems: string[] = [];
+    const unknown = used.filter((name) => !PROMPT_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+      problems.push(
+        `unknown variables ${unknown.join(', ')} (available: ${PROMPT_VARIABLES.join(', ')})`,
       );
-      // Remove excessive newlines that might be used for prompt breaking
-      sanitizedInput = sanitizedInput.replace(/\n{3,}/g, '\n\n');
     }
 
-    this.logger.debug(
-      `Injection check: ${isSafe ? 'SAFE' : 'THREAT DETECTED'}`,
-    );
-    if (!isSafe) {
-      this.logger.warn(`Prompt injection threats: ${threats.join(', ')}`);
+    if (declared) {
+      const undeclared = used.filter((name) => !declared.includes(name));
+      const unused = declared.filter((name) => !used.includes(name));
+      if (undeclared.length > 0) {
+        problems.push(`used but not declared: ${undeclared.join(', ')}`);
+      }
+      if (unused.length > 0) {
+        problems.push(`declared but not used: ${unused.join(', ')}`);
+      }
     }
 
-    return {
-      isSafe,
-      threats,
-      sanitizedInput,
-    };
+    if (problems.length > 0) {
+      throw new BadRequestException(`Invalid template: ${problems.join('; ')}`);
+    }
+
+    return used;
   }
 
   /**
-   * Create a new prompt template
+   * Create a new prompt template and record its first version. Variables
+   * are derived from the body when not declared.
    */
   async createTemplate(
     templateData: Partial<PromptTemplate>,
+    author?: PromptTemplateAuthor,
   ): Promise<PromptTemplateDocument> {
-    const template = new this.promptTemplateModel(templateData);
-    return template.save();
+    const variables = this.validateTemplate(
+      templateData.template || '',
+      templateData.variables,
+    );
+
+    const template = new this.promptTemplateModel({
+      ...templateData,
+      variables,
+      version: await this.promptHistoryService.nextVersion(templateData.name!),
+    });
+    await template.save();
+    await this.promptHistoryService.record(template, 'create', author);
+    return template;
   }
 
   /**
@@ -211,15 +435,93 @@ export class PromptService implements OnModuleInit {
   }
 
   /**
-   * Update a template
+   * Update a template, recording the result as a new version. Variables
+   * are derived from a new body when not declared.
    */
   async updateTemplate(
     name: string,
     updates: Partial<PromptTemplate>,
+    author?: PromptTemplateAuthor,
+    changeType: PromptTemplateChangeType = 'update',
+    restoredFrom?: number,
   ): Promise<PromptTemplateDocument | null> {
-    return this.promptTemplateModel
-      .findOneAndUpdate({ name }, updates, { new: true })
+    const { name: newName, version: _version, ...changes } = updates;
+
+    // History is keyed by name
+    if (newName !== undefined && newName !== name) {
+      throw new BadRequestException('Prompt templates cannot be renamed');
+    }
+
+    if (changes.template !== undefined || changes.variables !== undefined) {
+      const current = await this.promptTemplateModel.findOne({ name }).exec();
+      if (!current) {
+        return null;
+      }
+      // A new body without declared variables derives them, like create
+      changes.variables = this.validateTemplate(
+        changes.template ?? current.template,
+        changes.template !== undefined
+          ? changes.variables
+          : (changes.variables ?? current.variables),
+      );
+    }
+
+    const template = await this.promptTemplateModel
+      .findOneAndUpdate(
+        { name },
+        { $set: changes, $inc: { version: 1 } },
+        { new: true },
+      )
       .exec();
+
+    if (template) {
+      await this.promptHistoryService.record(
+        template,
+        changeType,
+        author,
+        restoredFrom,
+      );
+    }
+
+    return template;
+  }
+
+  /**
+   * Restore the content of an earlier version as a new version
+   */
+  async rollbackTemplate(
+    name: string,
+    version: number,
+    author?: PromptTemplateAuthor,
+  ): Promise<PromptTemplateDocument> {
+    const snapshot = await this.promptHistoryService.getVersion(name, version);
+
+    const template = await this.updateTemplate(
+      name,
+      {
+        description: snapshot.description,
+        layer: snapshot.layer,
+        template: snapshot.template,
+        variables: snapshot.variables,
+        tags: snapshot.tags,
+        isActive: snapshot.isActive,
+        priority: snapshot.priority,
+        targeting: snapshot.targeting,
+        metadata: snapshot.metadata as PromptTemplate['metadata'],
+      },
+      author,
+      'rollback',
+      version,
+    );
+
+    if (!template) {
+      throw new NotFoundException(`Template '${name}' not found`);
+    }
+
+    this.logger.log(
+      `Rolled back template ${name} to version ${version} as version ${template.version}`,
+    );
+    return template;
   }
 
   /**
@@ -297,22 +599,62 @@ CORE RULES (IMMUTABLE):
         description: 'Current conversation context',
         layer: 'context',
         priority: 30,
-        template: `CURRENT CONVERSATION:
-Topic: {{topic}}
-
-Recent messages:
-{{conversationHistory}}
-
-Continue the conversation naturally, helping the student practice English.`,
-        variables: ['topic', 'conversationHistory'],
+        template: CONTEXT_CONVERSATION_TEMPLATE,
+        variables: ['topic', 'conversationSummary'],
         tags: ['context', 'conversation'],
         isActive: true,
       },
     ];
 
-    await this.promptTemplateModel.insertMany(defaultTemplates);
+    const templates = await this.promptTemplateModel.insertMany(
+      defaultTemplates.map((template) => ({ ...template, version: 1 })),
+    );
+    for (const template of templates) {
+      await this.promptHistoryService.record(template, 'seed');
+    }
     this.logger.log(
       `Seeded ${defaultTemplates.length} default prompt templates`,
     );
   }
+
+  /**
+   * Update seeded templates that were never edited to their current body
+   */
+  private async migrateLegacyTemplates(): Promise<void> {
+    const template = await this.promptTemplateModel
+      .findOneAndUpdate(
+        {
+          name: 'context_conversation',
+          template: { $in: LEGACY_CONTEXT_CONVERSATION_TEMPLATES },
+        },
+        {
+          $set: {
+            template: CONTEXT_CONVERSATION_TEMPLATE,
+            variables: ['topic', 'conversationSummary'],
+          },
+          $inc: { version: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (template) {
+      await this.promptHistoryService.record(template, 'migration');
+      this.logger.log(
+        'Migrated context_conversation template to the conversation summary',
+      );
+    }
+  }
+
+  /**
+   * Number templates created before versioning and record their first version
+   */
+  private async backfillVersions(): Promise<void> {
+    await this.promptTemplateModel
+      .updateMany({ version: { $exists: false } }, { $set: { version: 1 } })
+      .exec();
+
+    const templates = await this.promptTemplateModel.find().exec();
+    await this.promptHistoryService.backfill(templates);
+  }
 }
@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { PromptTemplateTargeting } from '../../../common/interfaces/prompt.interface';
+
+export type PromptTemplateVersionDocument = PromptTemplateVersion & Document;
+
+/**
+ * Immutable snapshot of a prompt template, written on every change
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class PromptTemplateVersion {
+  @Prop({ required: true })
+  templateName: string;
+
+  @Prop({ required: true })
+  version: number;
+
+  @Prop({
+    required: true,
+    enum: ['seed', 'create', 'update', 'rollback', 'migration', 'experiment'],
+  })
+  changeType: string;
+
+  @Prop({ type: Object })
+  author?: { userId: string; email?: string }; // Unset for system changes
+
+  @Prop()
+  restoredFrom?: number; // Version a rollback copied
+
+  @Prop({ required: true })
+  description: string;
+
+  @Prop({ required: true })
+  layer: string;
+
+  @Prop({ required: true })
+  template: string;
+
+  @Prop({ type: [String], default: [] })
+  variables: string[];
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @Prop({ required: true })
+  isActive: boolean;
+
+  @Prop({ required: true })
+  priority: number;
+
+  @Prop({ type: Object })
+  targeting?: PromptTemplateTargeting;
+
+  @Prop({ type: Object })
+  metadata?: Record<string, unknown>;
+}
+
+export const PromptTemplateVersionSchema = SchemaFactory.createForClass(
+  PromptTemplateVersion,
+);
+
+// Indexes
+PromptTemplateVersionSchema.index(
+  { templateName: 1, version: -1 },
+  { unique: true },
+);
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import type { PromptTemplateTargeting } from '../../../common/interfaces/prompt.interface';
 
 export type PromptTemplateDocument = PromptTemplate & Document;
 
@@ -29,10 +30,16 @@ export class PromptTemplate {
   @Prop({ default: 0 })
   priority: number;
 
+  @Prop({ type: Object })
+  targeting?: PromptTemplateTargeting; // Unset: used in every conversation
+
+  @Prop({ default: 1 })
+  version: number; // Incremented on every change, see PromptTemplateVersion
+
   @Prop({ type: Object })
   metadata?: {
     category?: string;
-    targetLevel?: string; // 'beginner', 'intermediate', 'advanced'
+    targetLevel?: string; // Legacy, read as targeting.levels when that is unset
     language?: string;
   };
 }
@@ -0,0 +1,179 @@
+import { BadRequestException } from '@nestjs/common';
+import { PromptVariables } from '../../common/interfaces/prompt.interface';
+import { PromptService } from './prompt.service';
+import {
+  collectVariables,
+  parseTemplate,
+  PromptTemplateSyntaxError,
+  renderTemplate,
+} from './template-engine';
+
+const render = (source: string, variables: PromptVariables = {}) =>
+  renderTemplate(parseTemplate(source), variables);
+
+describe('template engine', () => {
+  describe('parseTemplate', () => {
+    it.each([
+      ['Hello {{level', 'Unclosed {{ (at character 6)'],
+      ['Hello {{ }}', 'Empty {{}} (at character 6)'],
+      ['{{#if level}}beginner', 'Missing {{/if}} for block (at character 0)'],
+      ['{{#each userGoals}}- {{this}}', 'Missing {{/each}} for block'],
+      ['{{/if}}', 'Unexpected {{/if}}'],
+      ['{{#if level}}a{{else}}b{{else}}c{{/if}}', 'Unexpected {{else}}'],
+      ['{{#if level = "a"}}x{{/if}}', 'Unexpected "= "a""'],
+      ['{{#if level == topic}}x{{/if}}', 'Invalid condition'],
+      ['{{#each "goals"}}x{{/each}}', 'Expected a variable name'],
+      ['{{level | shout}}', 'Unknown filter "shout"'],
+      ['{{level | default: topic}}', 'expects a quoted string or number'],
+      ['{{level topic}}', 'Expected "| filter"'],
+    ])('rejects %p', (source, message) => {
+      expect(() => parseTemplate(source)).toThrow(PromptTemplateSyntaxError);
+      expect(() => parseTemplate(source)).toThrow(message);
+    });
+
+    it('reports where the error is', () => {
+      expect(() => parseTemplate('Level: {{level}}\n{{#if topic}}')).toThrow(
+        expect.objectContaining({ position: 17 }),
+      );
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('renders variables and nested paths', () => {
+      expect(
+        render('{{level}} / {{profile.name}}', {
+          level: 'beginner',
+          profile: { name: 'Ana' },
+        }),
+      ).toBe('beginner / Ana');
+    });
+
+    it('renders missing variables as empty text unless defaulted', () => {
+      expect(render('Topic: {{topic}}.')).toBe('Topic: .');
+      expect(render('Topic: {{topic | default: "small talk"}}.')).toBe(
+        'Topic: small talk.',
+      );
+      expect(render('{{#if topic}}set{{else}}unset{{/if}}')).toBe('unset');
+      expect(render('[{{#each userGoals}}{{this}}{{/each}}]')).toBe('[]');
+    });
+
+    it('chains filters', () => {
+      expect(
+        render('{{userGoals | join: " & " | upper}}', {
+          userGoals: ['travel', 'work'],
+        }),
+      ).toBe('TRAVEL & WORK');
+      expect(
+        render('{{level | trim | capitalize}}', { level: '  advanced ' }),
+      ).toBe('Advanced');
+      expect(render('{{level | lower}}', { level: 'BEGINNER' })).toBe(
+        'beginner',
+      );
+    });
+
+    it('compares with == and !=', () => {
+      const template =
+        '{{#if level == "beginner"}}slow{{/if}}{{#if level != "beginner"}}fast{{/if}}';
+
+      expect(render(template, { level: 'beginner' })).toBe('slow');
+      expect(render(template, { level: 'advanced' })).toBe('fast');
+      expect(render('{{#if count == 2}}two{{/if}}', { count: 2 })).toBe('two');
+    });
+
+    it('renders nested blocks with loop locals', () => {
+      const template = [
+        'Goals:',
+        '{{#each userGoals}}',
+        '{{#if level == "beginner"}}',
+        '{{@index}}. {{this | upper}}',
+        '{{else}}',
+        '{{@index}}. {{this}}',
+        '{{/if}}',
+        '{{/each}}',
+        'Done',
+      ].join('\n');
+
+      expect(
+        render(template, { level: 'beginner', userGoals: ['travel', 'work'] }),
+      ).toBe('Goals:\n1. TRAVEL\n2. WORK\nDone');
+      expect(
+        render(template, { level: 'advanced', userGoals: ['travel'] }),
+      ).toBe('Goals:\n1. travel\nDone');
+    });
+
+    it('keeps inline blocks on their line', () => {
+      expect(
+        render('Level: {{#if level}}{{level}}{{else}}unknown{{/if}}!\nNext', {
+          level: 'beginner',
+        }),
+      ).toBe('Level: beginner!\nNext');
+    });
+
+    it('unescapes quoted literals', () => {
+      expect(render('{{topic | default: "say \\"hi\\""}}')).toBe('say "hi"');
+      expect(render("{{topic | default: 'it\\'s fine'}}")).toBe("it's fine");
+    });
+
+    it('inserts values as text without interpreting them', () => {
+      expect(render('{{topic}}', { topic: '{{level}} {{#if x}}' })).toBe(
+        '{{level}} {{#if x}}',
+      );
+      expect(render('[{{constructor.name}}]', {})).toBe('[]');
+      expect(render('{{profile}}', { profile: { a: 1 } })).toBe('{"a":1}');
+    });
+  });
+
+  describe('collectVariables', () => {
+    it('lists root variables once, without loop locals', () => {
+      expect(
+        collectVariables(
+          parseTemplate(
+            '{{level}} {{#if topic == "x"}}{{profile.name}}{{/if}}{{#each userGoals}}{{this}} {{@index}} {{level}}{{/each}}',
+          ),
+        ),
+      ).toEqual(['level', 'topic', 'profile', 'userGoals']);
+    });
+  });
+
+  describe('PromptService.validateTemplate', () => {
+    const promptService = new PromptService({} as any, {} as any);
+
+    it('returns the variables a template uses', () => {
+      expect(
+        promptService.validateTemplate(
+          'Level {{level}}{{#each userGoals}} {{this}}{{/each}}',
+        ),
+      ).toEqual(['level', 'userGoals']);
+    });
+
+    it('rejects syntax errors as bad requests', () => {
+      expect(() => promptService.validateTemplate('{{#if level}}')).toThrow(
+        new BadRequestException(
+          'Invalid template: Missing {{/if}} for block (at character 0)',
+        ),
+      );
+    });
+
+    it('rejects unknown variables', () => {
+      expect(() => promptService.validateTemplate('{{nickname}}')).toThrow(
+        /unknown variables nickname \(available: userId, level,/,
+      );
+    });
+
+    it('checks declared variables against the body', () => {
+      expect(() =>
+        promptService.validateTemplate('{{level}} {{topic}}', [
+          'level',
+          'userGoals',
+        ]),
+      ).toThrow(
+        new BadRequestException(
+          'Invalid template: used but not declared: topic; declared but not used: userGoals',
+        ),
+      );
+      expect(promptService.validateTemplate('{{level}}', ['level'])).toEqual([
+        'level',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,473 @@
+import { PromptVariables } from '../../common/interfaces/prompt.interface';
+
+/**
+ * Small template language for prompt templates:
+ *
+ *   {{level}}                          variable
+ *   {{topic | default: "small talk"}}  filters: default, upper, lower,
+ *                                      capitalize, trim, join
+ *   {{#if level == "beginner"}}...{{else}}...{{/if}}   also != and bare
+ *                                                      truthiness
+ *   {{#each userGoals}}- {{this}}{{/each}}             {{@index}} is 1-based
+ *
+ * Templates are parsed, never evaluated, so stored templates cannot run code.
+ */
+
+export class PromptTemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(`${message} (at character ${position})`);
+    this.name = 'PromptTemplateSyntaxError';
+  }
+}
+
+type Literal = string | number;
+
+interface Filter {
+  name: string;
+  arg?: Literal;
+}
+
+interface Condition {
+  path: string;
+  operator?: '==' | '!=';
+  value?: Literal;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; path: string; filters: Filter[] }
+  | {
+      type: 'if';
+      condition: Condition;
+      then: TemplateNode[];
+      else: TemplateNode[];
+    }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; value: string; position: number };
+
+interface ExpressionToken {
+  type: 'path' | 'string' | 'number' | 'operator';
+  value: string;
+}
+
+const FILTERS: Record<
+  string,
+  (value: unknown, arg: Literal | undefined) => unknown
+> = {
+  default: (value, arg) => (isTruthy(value) ? value : (arg ?? '')),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: (value) => toText(value).trim(),
+  join: (value, arg) =>
+    Array.isArray(value)
+      ? value.map(toText).join(arg === undefined ? ', ' : String(arg))
+      : value,
+};
+
+const BLOCK_TAG = /^(#if|#each|else$|\/if$|\/each$)/;
+const LOOP_LOCALS = ['this', '@index'];
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const tokens = stripStandaloneBlockLines(tokenize(source));
+  let index = 0;
+
+  const parseBlock = (closing: string[]): [TemplateNode[], string?] => {
+    const nodes: TemplateNode[] = [];
+
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token.type === 'text') {
+        nodes.push({ type: 'text', value: token.value });
+        continue;
+      }
+
+      const tag = token.value;
+      if (closing.includes(tag)) {
+        return [nodes, tag];
+      }
+
+      if (tag.startsWith('#if ')) {
+        const condition = parseCondition(tag.slice(4), token.position);
+        const [thenNodes, end] = parseBlock(['else', '/if']);
+        let elseNodes: TemplateNode[] = [];
+        if (end === 'else') {
+          [elseNodes] = expectClosed(
+            parseBlock(['/if']),
+            '/if',
+            token.position,
+          );
+        } else {
+          expectClosed([thenNodes, end], '/if', token.position);
+        }
+        nodes.push({
+          type: 'if',
+          condition,
+          then: thenNodes,
+          else: elseNodes,
+        });
+      } else if (tag.startsWith('#each ')) {
+        const path = parsePath(tag.slice(6), token.position);
+        const [body] = expectClosed(
+          parseBlock(['/each']),
+          '/each',
+          token.position,
+        );
+        nodes.push({ type: 'each', path, body });
+      } else if (BLOCK_TAG.test(tag)) {
+        throw new PromptTemplateSyntaxError(
+          `Unexpected {{${tag}}}`,
+          token.position,
+        );
+      } else {
+        nodes.push(parseOutput(tag, token.position));
+      }
+    }
+
+    return [nodes, undefined];
+  };
+
+  return parseBlock([])[0];
+}
+
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: PromptVariables,
+): string {
+  const render = (
+    children: TemplateNode[],
+    scope: Record<string, unknown>,
+  ): string =>
+    children
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return node.value;
+          case 'output':
+            return toText(
+              node.filters.reduce(
+                (value, filter) => FILTERS[filter.name](value, filter.arg),
+                resolvePath(scope, node.path),
+              ),
+            );
+          case 'if':
+            return render(
+              evaluate(node.condition, scope) ? node.then : node.else,
+              scope,
+            );
+          case 'each': {
+            const items = resolvePath(scope, node.path);
+            return (Array.isArray(items) ? items : [])
+              .map((item, position) =>
+                render(node.body, {
+                  ...scope,
+                  this: item,
+                  '@index': position + 1,
+                }),
+              )
+              .join('');
+          }
+        }
+      })
+      .join('');
+
+  return render(nodes, { ...variables });
+}
+
+/**
+ * Root variable names a template reads, loop locals excluded
+ */
+export function collectVariables(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const add = (path: string) => {
+    const root = path.split('.')[0];
+    if (!LOOP_LOCALS.includes(root)) {
+      names.add(root);
+    }
+  };
+
+  const visit = (children: TemplateNode[]) => {
+    for (const node of children) {
+      if (node.type === 'output') {
+        add(node.path);
+      } else if (node.type === 'if') {
+        add(node.condition.path);
+        visit(node.then);
+        visit(node.else);
+      } else if (node.type === 'each') {
+        add(node.path);
+        visit(node.body);
+      }
+    }
+  };
+
+  visit(nodes);
+  return Array.from(names);
+}
+
+function expectClosed(
+  [nodes, end]: [TemplateNode[], string?],
+  closing: string,
+  position: number,
+): [TemplateNode[], string?] {
+  if (end !== closing) {
+    throw new PromptTemplateSyntaxError(
+      `Missing {{${closing}}} for block`,
+      position,
+    );
+  }
+  return [nodes, end];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  while (cursor < source.length) {
+    const open = source.indexOf('{{', cursor);
+    if (open === -1) {
+      tokens.push({ type: 'text', value: source.slice(cursor) });
+      break;
+    }
+
+    const close = source.indexOf('}}', open + 2);
+    if (close === -1) {
+      throw new PromptTemplateSyntaxError('Unclosed {{', open);
+    }
+
+    if (open > cursor) {
+      tokens.push({ type: 'text', value: source.slice(cursor, open) });
+    }
+    const value = source.slice(open + 2, close).trim();
+    if (!value) {
+      throw new PromptTemplateSyntaxError('Empty {{}}', open);
+    }
+    tokens.push({ type: 'tag', value, position: open });
+    cursor = close + 2;
+  }
+
+  return tokens;
+}
+
+/**
+ * Drop the line of a block tag that stands alone on it, so blocks do not
+ * leave blank lines behind
+ */
+function stripStandaloneBlockLines(tokens: Token[]): Token[] {
+  // Decide on the original text first, neighbouring tags share text tokens
+  const standalone = tokens.map((token, index) => {
+    if (token.type !== 'tag' || !BLOCK_TAG.test(token.value)) {
+      return false;
+    }
+
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    const lineStart =
+      !previous ||
+      (previous.type === 'text' &&
+        /(^|\n)[ \t]*$/.test(previous.value) &&
+        (index === 1 || previous.value.includes('\n')));
+    const lineEnd =
+      !next || (next.type === 'text' && /^[ \t]*(\r?\n|$)/.test(next.value));
+
+    return lineStart && lineEnd;
+  });
+
+  tokens.forEach((token, index) => {
+    if (!standalone[index]) {
+      return;
+    }
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    if (previous?.type === 'text') {
+      previous.value = previous.value.replace(/[ \t]*$/, '');
+    }
+    if (next?.type === 'text') {
+      next.value = next.value.replace(/^[ \t]*\r?\n?/, '');
+    }
+  });
+
+  return tokens;
+}
+
+function lexExpression(source: string, position: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  const pattern =
+    /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|(==|!=|\||:)|(@?[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*))\s*/y;
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new PromptTemplateSyntaxError(
+        `Unexpected "${source.slice(cursor).trim()}"`,
+        position + cursor,
+      );
+    }
+    const [, string, number, operator, path] = match;
+    if (string !== undefined) {
+      tokens.push({
+        type: 'string',
+        value: string.slice(1, -1).replace(/\\(.)/g, '$1'),
+      });
+    } else if (number !== undefined) {
+      tokens.push({ type: 'number', value: number });
+    } else if (operator !== undefined) {
+      tokens.push({ type: 'operator', value: operator });
+    } else {
+      tokens.push({ type: 'path', value: path });
+    }
+    cursor = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+function parsePath(source: string, position: number): string {
+  const tokens = lexExpression(source, position);
+  if (tokens.length !== 1 || tokens[0].type !== 'path') {
+    throw new PromptTemplateSyntaxError(
+      `Expected a variable name, got "${source.trim()}"`,
+      position,
+    );
+  }
+  return tokens[0].value;
+}
+
+function parseCondition(source: string, position: number): Condition {
+  const tokens = lexExpression(source, position);
+  const [path, operator, value] = tokens;
+
+  if (path?.type !== 'path') {
+    throw new PromptTemplateSyntaxError(
+      'Condition must start with a variable name',
+      position,
+    );
+  }
+  if (tokens.length === 1) {
+    return { path: path.value };
+  }
+  if (
+    tokens.length === 3 &&
+    (operator.value === '==' || operator.value === '!=') &&
+    (value.type === 'string' || value.type === 'number')
+  ) {
+    return {
+      path: path.value,
+      operator: operator.value,
+      value: toLiteral(value),
+    };
+  }
+
+  throw new PromptTemplateSyntaxError(
+    `Invalid condition "${source.trim()}", expected name, name == "value" or name != "value"`,
+    position,
+  );
+}
+
+function parseOutput(
+  source: string,
+  position: number,
+): Extract<TemplateNode, { type: 'output' }> {
+  const tokens = lexExpression(source, position);
+  const path = tokens.shift();
+
+  if (path?.type !== 'path') {
+    throw new PromptTemplateSyntaxError(
+      `Expected a variable name, got "${source}"`,
+      position,
+    );
+  }
+
+  const filters: Filter[] = [];
+  while (tokens.length > 0) {
+    const pipe = tokens.shift()!;
+    const name = tokens.shift();
+    if (pipe.value !== '|' || name?.type !== 'path') {
+      throw new PromptTemplateSyntaxError(
+        `Expected "| filter" in "${source}"`,
+        position,
+      );
+    }
+    if (!FILTERS[name.value]) {
+      throw new PromptTemplateSyntaxError(
+        `Unknown filter "${name.value}" (available: ${Object.keys(FILTERS).join(', ')})`,
+        position,
+      );
+    }
+
+    const filter: Filter = { name: name.value };
+    if (tokens[0]?.value === ':') {
+      tokens.shift();
+      const arg = tokens.shift();
+      if (arg?.type !== 'string' && arg?.type !== 'number') {
+        throw new PromptTemplateSyntaxError(
+          `Filter "${name.value}" expects a quoted string or number`,
+          position,
+        );
+      }
+      filter.arg = toLiteral(arg);
+    }
+    filters.push(filter);
+  }
+
+  return { type: 'output', path: path.value, filters };
+}
+
+function toLiteral(token: ExpressionToken): Literal {
+  return token.type === 'number' ? Number(token.value) : token.value;
+}
+
+function resolvePath(scope: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object' && Object.hasOwn(value, key)) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, scope);
+}
+
+function evaluate(
+  condition: Condition,
+  scope: Record<string, unknown>,
+): boolean {
+  const value = resolvePath(scope, condition.path);
+
+  switch (condition.operator) {
+    case '==':
+      return toText(value) === String(condition.value);
+    case '!=':
+      return toText(value) !== String(condition.value);
+    default:
+      return isTruthy(value);
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0
+    : value !== undefined && value !== null && value !== '' && value !== false;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value as string | number | boolean);
+}
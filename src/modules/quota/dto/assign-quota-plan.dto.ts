@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignQuotaPlanDto {
+  @ApiProperty({
+    description: 'Quota plan name',
+    example: 'premium',
+  })
+  @IsString()
+  @IsNotEmpty()
+  plan: string;
+}
@@ -0,0 +1,53 @@
+import { IsString, IsOptional, IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpsertQuotaPlanDto {
+  @ApiProperty({
+    description: 'Plan description',
+    example: 'Paid plan with higher limits',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Tokens allowed per UTC day (omit for unlimited)',
+    example: 50000,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  dailyTokenLimit?: number;
+
+  @ApiProperty({
+    description: 'Tokens allowed per calendar month (omit for unlimited)',
+    example: 1000000,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  monthlyTokenLimit?: number;
+
+  @ApiProperty({
+    description: 'Messages allowed per UTC day (omit for unlimited)',
+    example: 50,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  dailyMessageLimit?: number;
+
+  @ApiProperty({
+    description: 'Messages allowed per calendar month (omit for unlimited)',
+    example: 1000,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  monthlyMessageLimit?: number;
+}
@@ -0,0 +1,23 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+export type QuotaMetric = 'tokens' | 'messages';
+
+export class QuotaExceededException extends HttpException {
+  constructor(
+    readonly plan: string,
+    readonly period: QuotaPeriod,
+    readonly metric: QuotaMetric,
+    readonly limit: number,
+    readonly resetsAt: Date,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Quota Exceeded',
+        message: `${period === 'daily' ? 'Daily' : 'Monthly'} ${metric} quota of ${limit} reached for plan '${plan}'. Resets at ${resetsAt.toISOString()}`,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
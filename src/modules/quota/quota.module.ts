@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { QuotaService } from './quota.service';
+import { QuotaPlan, QuotaPlanSchema } from './schemas/quota-plan.schema';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: QuotaPlan.name, schema: QuotaPlanSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    UsageModule,
+  ],
+  providers: [QuotaService],
+  exports: [QuotaService],
+})
+export class QuotaModule {}
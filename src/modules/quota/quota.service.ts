@@ -0,0 +1,270 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { QuotaPlan, QuotaPlanDocument } from './schemas/quota-plan.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { UsageService } from '../usage/usage.service';
+import {
+  QuotaExceededException,
+  QuotaMetric,
+  QuotaPeriod,
+} from './quota-exceeded.exception';
+import { UpsertQuotaPlanDto } from './dto/upsert-quota-plan.dto';
+
+@Injectable()
+export class QuotaService implements OnModuleInit {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly defaultPlanName: string;
+
+  constructor(
+    @InjectModel(QuotaPlan.name)
+    private quotaPlanModel: Model<QuotaPlanDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>,
+    private usageService: UsageService,
+    private configService: ConfigService,
+  ) {
+    this.defaultPlanName = this.configService.get<string>(
+      'QUOTA_DEFAULT_PLAN',
+      'free',
+    );
+  }
+
+  async onModuleInit() {
+    await this.seedDefaultPlans();
+  }
+
+  /**
+   * Throw a 429 if the user has used up any limit of their plan
+   */
+  async assertWithinQuota(userId: string): Promise<void> {
+    const quota = await this.getUserQuota(userId);
+
+    const checks: Array<{
+      period: QuotaPeriod;
+      metric: QuotaMetric;
+      used: number;
+      limit: number | null;
+    }> = [
+      {
+        period: 'daily',
+        metric: 'tokens',
+        used: quota.usage.daily.tokens,
+        limit: quota.limits.dailyTokenLimit,
+      },
+      {
+        period: 'daily',
+        metric: 'messages',
+        used: quota.usage.daily.messages,
+        limit: quota.limits.dailyMessageLimit,
+      },
+      {
+        period: 'monthly',
+        metric: 'tokens',
+        used: quota.usage.monthly.tokens,
+        limit: quota.limits.monthlyTokenLimit,
+      },
+      {
+        period: 'monthly',
+        metric: 'messages',
+        used: quota.usage.monthly.messages,
+        limit: quota.limits.monthlyMessageLimit,
+      },
+    ];
+
+    const exceeded = checks.find(
+      (check) => check.limit !== null && check.used >= check.limit,
+    );
+
+    if (exceeded) {
+      this.logger.warn(
+        `User ${userId} exceeded ${exceeded.period} ${exceeded.metric} quota (${exceeded.used}/${exceeded.limit})`,
+      );
+      throw new QuotaExceededException(
+        quota.plan,
+        exceeded.period,
+        exceeded.metric,
+        exceeded.limit as number,
+        quota.resetsAt[exceeded.period],
+      );
+    }
+  }
+
+  /**
+   * Current plan, limits and consumption for a user
+   */
+  async getUserQuota(userId: string) {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const user = await this.userModel.findById(userId).exec();
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const plan = await this.getPlan(user.plan || this.defaultPlanName);
+
+    const now = new Date();
+    const dayStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    const monthStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+    );
+
+    const daily = await this.usageService.getUserTotals(
+      userId,
+      this.latest(dayStart, user.quotaResetAt),
+    );
+    const monthly = await this.usageService.getUserTotals(
+      userId,
+      this.latest(monthStart, user.quotaResetAt),
+    );
+
+    return {
+      plan: plan.name,
+      limits: {
+        dailyTokenLimit: plan.dailyTokenLimit,
+        monthlyTokenLimit: plan.monthlyTokenLimit,
+        dailyMessageLimit: plan.dailyMessageLimit,
+        monthlyMessageLimit: plan.monthlyMessageLimit,
+      },
+      usage: { daily, monthly },
+      resetsAt: {
+        daily: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+        monthly: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+        ),
+      },
+      quotaResetAt: user.quotaResetAt,
+    };
+  }
+
+  async getPlans(): Promise<QuotaPlanDocument[]> {
+    return this.quotaPlanModel.find().sort({ name: 1 }).exec();
+  }
+
+  async getPlan(name: string): Promise<QuotaPlanDocument> {
+    const plan = await this.quotaPlanModel.findOne({ name }).exec();
+    if (!plan) {
+      throw new NotFoundException(`Quota plan '${name}' not found`);
+    }
+    return plan;
+  }
+
+  /**
+   * Create or replace a plan's limits
+   */
+  async upsertPlan(
+    name: string,
+    dto: UpsertQuotaPlanDto,
+  ): Promise<QuotaPlanDocument> {
+    const plan = await this.quotaPlanModel
+      .findOneAndUpdate(
+        { name },
+        {
+          name,
+          description: dto.description,
+          dailyTokenLimit: dto.dailyTokenLimit ?? null,
+          monthlyTokenLimit: dto.monthlyTokenLimit ?? null,
+          dailyMessageLimit: dto.dailyMessageLimit ?? null,
+          monthlyMessageLimit: dto.monthlyMessageLimit ?? null,
+        },
+        { new: true, upsert: true },
+      )
+      .exec();
+
+    this.logger.log(`Quota plan '${name}' saved`);
+    return plan;
+  }
+
+  async assignPlan(userId: string, planName: string) {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    await this.getPlan(planName);
+
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, { plan: planName }, { new: true })
+      .exec();
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    this.logger.log(`Assigned quota plan '${planName}' to user ${userId}`);
+    return this.getUserQuota(userId);
+  }
+
+  /**
+   * Start counting usage from now, without deleting the ledger
+   */
+  async resetCounters(userId: string) {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, { quotaResetAt: new Date() }, { new: true })
+      .exec();
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    this.logger.log(`Reset quota counters for user ${userId}`);
+    return this.getUserQuota(userId);
+  }
+
+  private latest(date: Date, other?: Date): Date {
+    return other && other > date ? other : date;
+  }
+
+  /**
+   * Seed default quota plans
+   */
+  private async seedDefaultPlans(): Promise<void> {
+    const count = await this.quotaPlanModel.countDocuments().exec();
+
+    if (count > 0) {
+      this.logger.log('Quota plans already seeded');
+      return;
+    }
+
+    const defaultPlans = [
+      {
+        name: 'free',
+        description: 'Default plan for new users',
+        dailyTokenLimit: 50000,
+        monthlyTokenLimit: 1000000,
+        dailyMessageLimit: 50,
+        monthlyMessageLimit: 1000,
+      },
+      {
+        name: 'premium',
+        description: 'Paid plan with higher limits',
+        dailyTokenLimit: 500000,
+        monthlyTokenLimit: 10000000,
+        dailyMessageLimit: 500,
+        monthlyMessageLimit: 10000,
+      },
+      {
+        name: 'unlimited',
+        description: 'No limits (staff and testing accounts)',
+        dailyTokenLimit: null,
+        monthlyTokenLimit: null,
+        dailyMessageLimit: null,
+        monthlyMessageLimit: null,
+      },
+    ];
+
+    await this.quotaPlanModel.insertMany(defaultPlans);
+    this.logger.log(`Seeded ${defaultPlans.length} default quota plans`);
+  }
+}
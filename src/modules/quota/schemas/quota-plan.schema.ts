@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type QuotaPlanDocument = QuotaPlan & Document;
+
+// Limits set to null are unlimited
+@Schema({ timestamps: true })
+export class QuotaPlan {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: Number, default: null })
+  dailyTokenLimit: number | null;
+
+  @Prop({ type: Number, default: null })
+  monthlyTokenLimit: number | null;
+
+  @Prop({ type: Number, default: null })
+  dailyMessageLimit: number | null;
+
+  @Prop({ type: Number, default: null })
+  monthlyMessageLimit: number | null;
+}
+
+export const QuotaPlanSchema = SchemaFactory.createForClass(QuotaPlan);
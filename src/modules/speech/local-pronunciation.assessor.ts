@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PronunciationAssessmentRequest,
+  PronunciationAssessmentResult,
+  PronunciationAssessor,
+  PronunciationWordScore,
+} from '../../common/interfaces/speech.interface';
+
+/**
+ * Deterministic stand-in for an acoustic model: aligns the transcript with
+ * the reference text word by word and scores each pair by spelling
+ * similarity, so a misheard word stands for a mispronounced one
+ */
+@Injectable()
+export class LocalPronunciationAssessor implements PronunciationAssessor {
+  readonly name = 'local';
+
+  assess(
+    request: PronunciationAssessmentRequest,
+  ): Promise<PronunciationAssessmentResult> {
+    const words = alignWords(
+      toWords(request.referenceText),
+      toWords(request.transcript),
+    );
+
+    return Promise.resolve({ words });
+  }
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) || [];
+}
+
+/**
+ * Word-level edit distance alignment: matches and substitutions pair an
+ * expected word with a heard one, deletions are skipped words and
+ * insertions extra ones
+ */
+function alignWords(
+  expected: string[],
+  heard: string[],
+): PronunciationWordScore[] {
+  // cost[i][j] = cheapest alignment of expected[i..] and heard[j..]
+  const cost: number[][] = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(heard.length + 1).fill(0),
+  );
+  for (let i = expected.length; i >= 0; i--) {
+    for (let j = heard.length; j >= 0; j--) {
+      if (i === expected.length || j === heard.length) {
+        cost[i][j] = expected.length - i + (heard.length - j);
+        continue;
+      }
+      cost[i][j] = Math.min(
+        cost[i + 1][j + 1] + (1 - similarity(expected[i], heard[j])),
+        cost[i + 1][j] + 1,
+        cost[i][j + 1] + 1,
+      );
+    }
+  }
+
+  const words: PronunciationWordScore[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < heard.length) {
+    if (
+      i < expected.length &&
+      j < heard.length &&
+      cost[i][j] ===
+        cost[i + 1][j + 1] + (1 - similarity(expected[i], heard[j]))
+    ) {
+      words.push({
+        word: expected[i],
+        heard: heard[j],
+        score: Math.round(similarity(expected[i], heard[j]) * 100),
+      });
+      i++;
+      j++;
+    } else if (i < expected.length && cost[i][j] === cost[i + 1][j] + 1) {
+      words.push({ word: expected[i++], score: 0 });
+    } else {
+      words.push({ word: '', heard: heard[j++], score: 0 });
+    }
+  }
+
+  return words;
+}
+
+/**
+ * 1 minus the normalized character edit distance
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
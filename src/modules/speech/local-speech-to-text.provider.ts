@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AudioInput,
+  AudioTranscriptionOptions,
+  AudioTranscriptionResult,
+  SpeechToTextProvider,
+} from '../../common/interfaces/speech.interface';
+import { getWavDuration } from './wav';
+
+/**
+ * Offline stand-in for a real recognizer: returns SPEECH_STUB_TRANSCRIPT
+ * and reads the duration from WAV headers
+ */
+@Injectable()
+export class LocalSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'local';
+
+  constructor(private configService: ConfigService) {}
+
+  transcribe(
+    audio: AudioInput,
+    options: AudioTranscriptionOptions = {},
+  ): Promise<AudioTranscriptionResult> {
+    return Promise.resolve({
+      text: this.configService.get<string>(
+        'SPEECH_STUB_TRANSCRIPT',
+        'Hello, I would like to practice my English.',
+      ),
+      confidence: 1,
+      duration: getWavDuration(audio.data),
+      language: options.language || 'en',
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import {
+  SpeechSynthesisOptions,
+  SpeechSynthesisResult,
+  TextToSpeechProvider,
+} from '../../common/interfaces/speech.interface';
+import { encodeWav } from './wav';
+
+const SAMPLE_RATE = 16000;
+const SECONDS_PER_WORD = 0.35;
+
+/**
+ * Offline stand-in for a real voice: one short tone per word, so the
+ * duration roughly follows the text and clients can exercise playback
+ */
+@Injectable()
+export class LocalTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'local';
+
+  synthesize(
+    text: string,
+    options: SpeechSynthesisOptions = {},
+  ): Promise<SpeechSynthesisResult> {
+    const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+    const wordSamples = Math.round(
+      (SAMPLE_RATE * SECONDS_PER_WORD) / (options.speakingRate || 1),
+    );
+    const samples = new Int16Array(words * wordSamples);
+
+    // A 220Hz tone for the first 70% of each word, silence for the rest
+    for (let word = 0; word < words; word++) {
+      const offset = word * wordSamples;
+      const toneSamples = Math.round(wordSamples * 0.7);
+      for (let i = 0; i < toneSamples; i++) {
+        samples[offset + i] = Math.round(
+          Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE) * 3000,
+        );
+      }
+    }
+
+    return Promise.resolve({
+      data: encodeWav(samples, SAMPLE_RATE),
+      mimeType: 'audio/wav',
+      duration: Math.round((samples.length / SAMPLE_RATE) * 100) / 100,
+    });
+  }
+}
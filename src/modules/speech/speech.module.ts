@@ -0,0 +1,76 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PRONUNCIATION_ASSESSOR,
+  SPEECH_TO_TEXT,
+  SpeechService,
+  TEXT_TO_SPEECH,
+} from './speech.service';
+import { LocalSpeechToTextProvider } from './local-speech-to-text.provider';
+import { LocalTextToSpeechProvider } from './local-text-to-speech.provider';
+import { LocalPronunciationAssessor } from './local-pronunciation.assessor';
+
+@Module({
+  providers: [
+    LocalSpeechToTextProvider,
+    LocalTextToSpeechProvider,
+    LocalPronunciationAssessor,
+    {
+      // Add new recognizers here to make them selectable through SPEECH_TO_TEXT_PROVIDER
+      provide: SPEECH_TO_TEXT,
+      useFactory: (
+        configService: ConfigService,
+        localSpeechToText: LocalSpeechToTextProvider,
+      ) => {
+        const name = configService.get<string>(
+          'SPEECH_TO_TEXT_PROVIDER',
+          'local',
+        );
+        if (name !== localSpeechToText.name) {
+          throw new Error(`Unknown SPEECH_TO_TEXT_PROVIDER '${name}'`);
+        }
+        return localSpeechToText;
+      },
+      inject: [ConfigService, LocalSpeechToTextProvider],
+    },
+    {
+      // Add new voices here to make them selectable through TEXT_TO_SPEECH_PROVIDER
+      provide: TEXT_TO_SPEECH,
+      useFactory: (
+        configService: ConfigService,
+        localTextToSpeech: LocalTextToSpeechProvider,
+      ) => {
+        const name = configService.get<string>(
+          'TEXT_TO_SPEECH_PROVIDER',
+          'local',
+        );
+        if (name !== localTextToSpeech.name) {
+          throw new Error(`Unknown TEXT_TO_SPEECH_PROVIDER '${name}'`);
+        }
+        return localTextToSpeech;
+      },
+      inject: [ConfigService, LocalTextToSpeechProvider],
+    },
+    {
+      // Add new assessors here to make them selectable through PRONUNCIATION_PROVIDER
+      provide: PRONUNCIATION_ASSESSOR,
+      useFactory: (
+        configService: ConfigService,
+        localAssessor: LocalPronunciationAssessor,
+      ) => {
+        const name = configService.get<string>(
+          'PRONUNCIATION_PROVIDER',
+          'local',
+        );
+        if (name !== localAssessor.name) {
+          throw new Error(`Unknown PRONUNCIATION_PROVIDER '${name}'`);
+        }
+        return localAssessor;
+      },
+      inject: [ConfigService, LocalPronunciationAssessor],
+    },
+    SpeechService,
+  ],
+  exports: [SpeechService],
+})
+export class SpeechModule {}
@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AudioInput,
+  AudioTranscriptionOptions,
+  AudioTranscriptionResult,
+  SpeechSynthesisOptions,
+  SpeechSynthesisResult,
+} from '../../common/interfaces/speech.interface';
+import type {
+  PronunciationAssessor,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+} from '../../common/interfaces/speech.interface';
+import {
+  PronunciationAnalysis,
+  PronunciationWord,
+} from '../../common/interfaces/conversation.interface';
+
+export const SPEECH_TO_TEXT = 'SPEECH_TO_TEXT';
+export const TEXT_TO_SPEECH = 'TEXT_TO_SPEECH';
+export const PRONUNCIATION_ASSESSOR = 'PRONUNCIATION_ASSESSOR';
+
+@Injectable()
+export class SpeechService {
+  private readonly logger = new Logger(SpeechService.name);
+  private readonly maxAudioBytes: number;
+  private readonly mispronouncedBelow: number;
+
+  constructor(
+    @Inject(SPEECH_TO_TEXT) private speechToText: SpeechToTextProvider,
+    @Inject(TEXT_TO_SPEECH) private textToSpeech: TextToSpeechProvider,
+    @Inject(PRONUNCIATION_ASSESSOR)
+    private pronunciationAssessor: PronunciationAssessor,
+    private configService: ConfigService,
+  ) {
+    this.maxAudioBytes = Number(
+      this.configService.get('AUDIO_MAX_BYTES', 10 * 1024 * 1024),
+    );
+    this.mispronouncedBelow = Number(
+      this.configService.get('PRONUNCIATION_MISPRONOUNCED_BELOW', 70),
+    );
+  }
+
+  /**
+   * Largest accepted upload, also enforced while multipart uploads stream in
+   */
+  getMaxAudioBytes(): number {
+    return this.maxAudioBytes;
+  }
+
+  /**
+   * Reject empty, oversized or non-audio uploads
+   */
+  validateAudio(audio: AudioInput): void {
+    if (!audio.data || audio.data.length === 0) {
+      throw new BadRequestException('Audio is empty');
+    }
+    if (audio.data.length > this.maxAudioBytes) {
+      throw new BadRequestException(
+        `Audio exceeds the ${this.maxAudioBytes} bytes limit`,
+      );
+    }
+    if (!audio.mimeType?.startsWith('audio/')) {
+      throw new BadRequestException(
+        `Unsupported audio type '${audio.mimeType}'`,
+      );
+    }
+  }
+
+  async transcribe(
+    audio: AudioInput,
+    options?: AudioTranscriptionOptions,
+  ): Promise<AudioTranscriptionResult & { provider: string }> {
+    const result = await this.speechToText.transcribe(audio, options);
+
+    if (!result.text.trim()) {
+      throw new BadRequestException('No speech recognized in the audio');
+    }
+
+    this.logger.debug(
+      `Transcribed ${audio.data.length} bytes with ${this.speechToText.name}`,
+    );
+    return { ...result, provider: this.speechToText.name };
+  }
+
+  async synthesize(
+    text: string,
+    options?: SpeechSynthesisOptions,
+  ): Promise<SpeechSynthesisResult & { provider: string }> {
+    const result = await this.textToSpeech.synthesize(text, options);
+
+    this.logger.debug(
+      `Synthesized ${text.length} characters with ${this.textToSpeech.name}`,
+    );
+    return { ...result, provider: this.textToSpeech.name };
+  }
+
+  /**
+   * Score how the learner pronounced a recording. In drill mode the
+   * transcript is compared to the sentence they were asked to say,
+   * otherwise to itself, which leaves the acoustic scores of the backend.
+   */
+  async assessPronunciation(
+    audio: AudioInput,
+    transcript: string,
+    expectedText?: string,
+  ): Promise<PronunciationAnalysis> {
+    const referenceText = expectedText?.trim() || transcript;
+    const result = await this.pronunciationAssessor.assess({
+      audio,
+      referenceText,
+      transcript,
+    });
+
+    const words: PronunciationWord[] = result.words.map((word) => ({
+      ...word,
+      status: !word.word
+        ? 'inserted'
+        : word.heard === undefined
+          ? 'omitted'
+          : word.score < this.mispronouncedBelow
+            ? 'mispronounced'
+            : 'correct',
+    }));
+
+    const expected = words.filter((word) => word.status !== 'inserted');
+    const heard = expected.filter((word) => word.status !== 'omitted');
+    const accuracyScore = heard.length
+      ? Math.round(
+          heard.reduce((sum, word) => sum + word.score, 0) / heard.length,
+        )
+      : 0;
+    const completenessScore = expected.length
+      ? Math.round((heard.length / expected.length) * 100)
+      : 100;
+    const scores = [accuracyScore, completenessScore];
+    if (result.fluencyScore !== undefined) {
+      scores.push(result.fluencyScore);
+    }
+
+    return {
+      provider: this.pronunciationAssessor.name,
+      mode: expectedText?.trim() ? 'drill' : 'free',
+      referenceText,
+      words,
+      mispronouncedWords: words
+        .filter((word) => word.status === 'mispronounced')
+        .map((word) => word.word),
+      omittedWords: words
+        .filter((word) => word.status === 'omitted')
+        .map((word) => word.word),
+      accuracyScore,
+      completenessScore,
+      fluencyScore: result.fluencyScore,
+      overallScore: Math.round(
+        scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      ),
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Duration in seconds of a PCM WAV file, undefined for other formats
+ */
+export function getWavDuration(data: Buffer): number | undefined {
+  if (
+    data.length < 44 ||
+    data.toString('ascii', 0, 4) !== 'RIFF' ||
+    data.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    return undefined;
+  }
+
+  let byteRate: number | undefined;
+  let offset = 12;
+
+  // Walk the chunks: "fmt " holds the byte rate, "data" the samples
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString('ascii', offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+
+    if (chunkId === 'fmt ') {
+      // Truncated or crafted header
+      if (offset + 20 > data.length) {
+        return undefined;
+      }
+      byteRate = data.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data' && byteRate) {
+      const size = Math.min(chunkSize, data.length - offset - 8);
+      return Math.round((size / byteRate) * 100) / 100;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return undefined;
+}
+
+/**
+ * Wrap 16-bit mono PCM samples in a WAV container
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  const dataSize = samples.length * 2;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // PCM chunk size
+  header.writeUInt16LE(1, 20); // PCM format
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize, 40);
+
+  return Buffer.concat([header, Buffer.from(samples.buffer)]);
+}
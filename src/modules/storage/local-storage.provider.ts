@@ -0,0 +1,80 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  StorageProvider,
+  StoredObject,
+} from '../../common/interfaces/storage.interface';
+
+/**
+ * Stores blobs under STORAGE_LOCAL_DIR, with the content type kept in a
+ * sidecar file next to each object
+ */
+@Injectable()
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+
+  private readonly logger = new Logger(LocalStorageProvider.name);
+  private readonly rootDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.rootDir = path.resolve(
+      this.configService.get<string>('STORAGE_LOCAL_DIR', './storage'),
+    );
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    contentType: string,
+  ): Promise<StoredObject> {
+    const filePath = this.resolvePath(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(
+      `${filePath}.meta.json`,
+      JSON.stringify({ contentType }),
+    );
+
+    this.logger.debug(`Stored ${key} (${data.length} bytes)`);
+    return { key, size: data.length, contentType };
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string }> {
+    const filePath = this.resolvePath(key);
+
+    try {
+      const data = await fs.readFile(filePath);
+      const meta = JSON.parse(
+        await fs.readFile(`${filePath}.meta.json`, 'utf8'),
+      );
+      return { data, contentType: meta.contentType };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`Stored object ${key} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that escape the storage root
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { STORAGE_PROVIDER, StorageService } from './storage.service';
+import { LocalStorageProvider } from './local-storage.provider';
+
+@Module({
+  providers: [
+    LocalStorageProvider,
+    {
+      // Add new backends here to make them selectable through STORAGE_DRIVER
+      provide: STORAGE_PROVIDER,
+      useFactory: (
+        configService: ConfigService,
+        localStorage: LocalStorageProvider,
+      ) => {
+        const driver = configService.get<string>('STORAGE_DRIVER', 'local');
+        if (driver !== localStorage.name) {
+          throw new Error(`Unknown STORAGE_DRIVER '${driver}'`);
+        }
+        return localStorage;
+      },
+      inject: [ConfigService, LocalStorageProvider],
+    },
+    StorageService,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
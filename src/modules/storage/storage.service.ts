@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StoredObject } from '../../common/interfaces/storage.interface';
+import type { StorageProvider } from '../../common/interfaces/storage.interface';
+
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+};
+
+/**
+ * Blob storage through the backend selected with STORAGE_DRIVER
+ */
+@Injectable()
+export class StorageService {
+  constructor(@Inject(STORAGE_PROVIDER) private provider: StorageProvider) {}
+
+  /**
+   * Store a blob under a generated key in the given folder
+   */
+  save(
+    folder: string,
+    data: Buffer,
+    contentType: string,
+  ): Promise<StoredObject> {
+    const extension = EXTENSIONS[contentType.split(';')[0]] || 'bin';
+    return this.provider.put(
+      `${folder}/${randomUUID()}.${extension}`,
+      data,
+      contentType,
+    );
+  }
+
+  get(key: string): Promise<{ data: Buffer; contentType: string }> {
+    return this.provider.get(key);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.provider.delete(key);
+  }
+}
@@ -0,0 +1,37 @@
+import { IsString, IsOptional, IsMongoId, IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UsageQueryDto {
+  @ApiProperty({ description: 'Filter by user ID', required: false })
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({ description: 'Filter by conversation ID', required: false })
+  @IsMongoId()
+  @IsOptional()
+  conversationId?: string;
+
+  @ApiProperty({ description: 'Filter by model name', required: false })
+  @IsString()
+  @IsOptional()
+  model?: string;
+
+  @ApiProperty({
+    description: 'Filter from date (ISO 8601 format)',
+    example: '2025-01-01',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'Filter to date (ISO 8601 format)',
+    example: '2025-01-31T23:59:59Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+}
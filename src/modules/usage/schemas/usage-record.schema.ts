@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type UsageRecordDocument = UsageRecord & Document;
+
+@Schema({ timestamps: true })
+export class UsageRecord {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Conversation' })
+  conversationId?: Types.ObjectId; // Unset for admin prompt previews and evaluations
+
+  @Prop({ type: Types.ObjectId, ref: 'Message' })
+  messageId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true })
+  model: string;
+
+  @Prop({
+    required: true,
+    enum: [
+      'chat',
+      'analysis',
+      'preview',
+      'evaluation',
+      'summary',
+      'moderation',
+      'guard',
+    ],
+  })
+  operation: string; // 'chat' (tutor reply), 'analysis' (grammar check), 'preview' (admin prompt dry-run), 'evaluation' (golden conversation replay), 'summary' (conversation summary), 'moderation' (injection classifier) or 'guard' (tutor reply regenerated by the response guard)
+
+  @Prop({ default: 0 })
+  promptTokens: number;
+
+  @Prop({ default: 0 })
+  completionTokens: number;
+
+  @Prop({ default: 0 })
+  totalTokens: number;
+
+  @Prop({ default: false })
+  estimated: boolean; // Counted locally instead of reported by the provider
+}
+
+export const UsageRecordSchema = SchemaFactory.createForClass(UsageRecord);
+
+// Indexes
+UsageRecordSchema.index({ userId: 1, createdAt: -1 });
+UsageRecordSchema.index({ conversationId: 1 });
+UsageRecordSchema.index({ model: 1, createdAt: -1 });
@@ -0,0 +1,232 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  UsageRecord,
+  UsageRecordDocument,
+} from './schemas/usage-record.schema';
+import { LlmUsage } from '../../common/interfaces/llm.interface';
+
+export interface UsageFilters {
+  userId?: string;
+  conversationId?: string;
+  model?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+const TOKEN_TOTALS = {
+  requests: { $sum: 1 },
+  promptTokens: { $sum: '$promptTokens' },
+  completionTokens: { $sum: '$completionTokens' },
+  totalTokens: { $sum: '$totalTokens' },
+};
+
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(
+    @InjectModel(UsageRecord.name)
+    private usageRecordModel: Model<UsageRecordDocument>,
+  ) {}
+
+  /**
+   * Append an entry to the usage ledger.
+   * Failures are logged and swallowed so accounting never breaks a chat turn.
+   */
+  async record(entry: {
+    userId: string;
+    conversationId?: string;
+    messageId?: string;
+    provider: string;
+    model: string;
+    operation:
+      | 'chat'
+      | 'analysis'
+      | 'preview'
+      | 'evaluation'
+      | 'summary'
+      | 'moderation'
+      | 'guard';
+    usage: LlmUsage;
+  }): Promise<UsageRecordDocument | null> {
+    try {
+      const record = new this.usageRecordModel({
+        userId: entry.userId,
+        conversationId: entry.conversationId
+          ? new Types.ObjectId(entry.conversationId)
+          : undefined,
+        messageId: entry.messageId
+          ? new Types.ObjectId(entry.messageId)
+          : undefined,
+        provider: entry.provider,
+        model: entry.model,
+        operation: entry.operation,
+        promptTokens: entry.usage.promptTokens,
+        completionTokens: entry.usage.completionTokens,
+        totalTokens: entry.usage.totalTokens,
+        estimated: !!entry.usage.estimated,
+      });
+
+      return await record.save();
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${entry.operation} usage for user ${entry.userId}`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Totals plus breakdowns by model, operation and user
+   */
+  async getUsageSummary(filters: UsageFilters) {
+    const match = this.buildMatch(filters);
+
+    const [totals] = await this.usageRecordModel.aggregate([
+      { $match: match },
+      { $group: { _id: null, ...TOKEN_TOTALS } },
+    ]);
+
+    const byModel = await this.usageRecordModel.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { provider: '$provider', model: '$model' },
+          ...TOKEN_TOTALS,
+        },
+      },
+      { $sort: { totalTokens: -1 } },
+    ]);
+
+    const byOperation = await this.usageRecordModel.aggregate([
+      { $match: match },
+      { $group: { _id: '$operation', ...TOKEN_TOTALS } },
+    ]);
+
+    const topUsers = await this.usageRecordModel.aggregate([
+      { $match: match },
+      { $group: { _id: '$userId', ...TOKEN_TOTALS } },
+      { $sort: { totalTokens: -1 } },
+      { $limit: 20 },
+    ]);
+
+    return {
+      totals: this.stripId(totals) || {
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      },
+      byModel: byModel.map(({ _id, ...rest }) => ({ ..._id, ...rest })),
+      byOperation: byOperation.reduce((acc, { _id, ...rest }) => {
+        acc[_id] = rest;
+        return acc;
+      }, {}),
+      topUsers: topUsers.map(({ _id, ...rest }) => ({ userId: _id, ...rest })),
+    };
+  }
+
+  /**
+   * Tokens and chat turns consumed by a user since a given date
+   */
+  async getUserTotals(
+    userId: string,
+    since: Date,
+  ): Promise<{ tokens: number; messages: number }> {
+    const [totals] = await this.usageRecordModel.aggregate([
+      { $match: { userId, createdAt: { $gte: since } } },
+      {
+        $group: {
+          _id: null,
+          tokens: { $sum: '$totalTokens' },
+          messages: {
+            $sum: { $cond: [{ $eq: ['$operation', 'chat'] }, 1, 0] },
+          },
+        },
+      },
+    ]);
+
+    return {
+      tokens: totals?.tokens ?? 0,
+      messages: totals?.messages ?? 0,
+    };
+  }
+
+  /**
+   * Token usage aggregated per UTC day, oldest first
+   */
+  async getDailyUsage(filters: UsageFilters) {
+    const days = await this.usageRecordModel.aggregate([
+      { $match: this.buildMatch(filters) },
+      {
+        $group: {
+          _id: {
+            day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+            model: '$model',
+          },
+          ...TOKEN_TOTALS,
+        },
+      },
+      { $sort: { '_id.day': 1 } },
+    ]);
+
+    // Fold per-model rows into one entry per day
+    const byDay = new Map<string, any>();
+    days.forEach(({ _id, ...totals }) => {
+      const day = byDay.get(_id.day) || {
+        date: _id.day,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        byModel: {},
+      };
+
+      day.requests += totals.requests;
+      day.promptTokens += totals.promptTokens;
+      day.completionTokens += totals.completionTokens;
+      day.totalTokens += totals.totalTokens;
+      day.byModel[_id.model] = totals;
+
+      byDay.set(_id.day, day);
+    });
+
+    return Array.from(byDay.values());
+  }
+
+  private buildMatch(filters: UsageFilters) {
+    const match: any = {};
+
+    if (filters.userId) {
+      match.userId = filters.userId;
+    }
+    if (filters.conversationId) {
+      match.conversationId = new Types.ObjectId(filters.conversationId);
+    }
+    if (filters.model) {
+      match.model = filters.model;
+    }
+    if (filters.startDate || filters.endDate) {
+      match.createdAt = {};
+      if (filters.startDate) {
+        match.createdAt.$gte = filters.startDate;
+      }
+      if (filters.endDate) {
+        match.createdAt.$lte = filters.endDate;
+      }
+    }
+
+    return match;
+  }
+
+  private stripId<T extends { _id?: unknown }>(doc?: T) {
+    if (!doc) {
+      return undefined;
+    }
+    const { _id, ...rest } = doc;
+    return rest;
+  }
+}